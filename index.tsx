@@ -8,6 +8,16 @@ type AppState = 'url-input' | 'scoreboard';
 type Status = '예정' | '진행중' | '종료';
 type Scores = { [className: string]: number };
 type ManualStatus = '활성' | '종료' | '예정';
+// Finishing position within a grade (1 = first), or 'DQ' for a disqualified class
+type Placement = number | 'DQ';
+type Placements = { [className: string]: Placement };
+
+// Points awarded per finishing position; positions past the table earn `participation`
+interface PointTable {
+  placements: number[];
+  participation: number;
+  disqualified: number;
+}
 
 // Player data types
 interface TugOfWarPlayerClass {
@@ -18,17 +28,59 @@ interface TugOfWarPlayerClass {
 }
 type PlayerData = string[] | TugOfWarPlayerClass;
 
+// How a bracket event orders its classes before the generator pairs them
+type BracketSeeding = 'manual' | 'random' | 'standings';
+type BracketFormat = 'single' | 'double' | 'roundRobin';
+interface RoundRobinPoints {
+  win: number;
+  draw: number;
+  loss: number;
+}
+interface BracketConfig {
+  seeding: BracketSeeding;
+  order?: { [grade: string]: string[] }; // manual: first-round order by class name, consecutive pairs meet
+  seed?: number; // random: the same seed always draws the same bracket
+  autoScore?: boolean; // turn each finished grade's bracket into placements for the event's scores
+  finalBestOf?: number; // games in the final series (odd, default 1); the last one is the decider
+  format?: BracketFormat; // default 'single'
+  roundRobinPoints?: RoundRobinPoints; // default 3/1/0
+}
+
+// Official game winners (class names, in playing order) per bracket match id, published by the host
+type BracketResults = { [matchId: string]: string[] };
+
+
+// One grade's turn in an event that runs grade by grade (e.g. 줄다리기 1학년 → 2학년 → 3학년)
+interface Heat {
+  id: string; // unique within the event; the sheet's heat column refers to it
+  grade: string;
+  startTime: string;
+  endTime: string;
+  title?: string; // default "<grade>학년"
+}
+
+// A heat as shown on the day: shifted with its event's delay, with its own status and winners
+interface HeatProgress extends Heat {
+  status: Status;
+  manualStatus?: ManualStatus;
+  schedule: { startTime: string; endTime: string };
+  winners: string[]; // the grade's 1st place class(es) so far
+}
 
 // Base type for an event from initial data or sheet
 interface SportsEventData {
   id: number;
   title: string;
+  date?: string; // "YYYY-MM-DD"; without it the event is taken to be today
   startTime: string;
   endTime: string;
   location: string;
   rules?: string;
   gameFormat?: string;
   scores?: Scores;
+  pointTable?: PointTable;
+  bracket?: BracketConfig;
+  heats?: Heat[];
   manualStatus?: ManualStatus;
   lunchMenu?: string;
   lineup?: string[];
@@ -45,20 +97,237 @@ interface SportsEventData {
 // Full event type used in the UI, with calculated status
 interface SportsEvent extends SportsEventData {
   status: Status;
+  placementScores?: { [className: string]: PlacementScore };
+  actualTimes?: ActualTimes;
+  schedule: EventSchedule;
+  heats?: HeatProgress[];
+  substitutions?: Substitution[]; // the ones applied to `players`
+  originalPlayers?: SportsEventData['players']; // the lineup before substitutions, set when there are any
+  missionDraw?: MissionDraw;
+  missionAssignments?: MissionAssignments; // derived from `missionDraw`
+  missionInputHash?: string; // hashMissionDrawInputs of the event as built in, set when it has missions
+  missionDrawOutdated?: boolean; // the missions or classes changed since the draw, so the assignments moved
+}
+
+// Actual start/end ("HH:MM") recorded by the host on the day
+interface ActualTimes {
+  start?: string;
+  end?: string;
+}
+
+// Where an event sits on the day's timeline once delays are taken into account
+interface EventSchedule {
+  startTime: string; // actual, or projected from the events before it
+  endTime: string;
+  delayMinutes: number; // late start against the printed schedule; 0 when on time or early
 }
 
 // --- Type for fetched sheet updates ---
 interface SheetUpdates {
     scoresByEvent: { [eventId: number]: Scores };
+    placementsByEvent?: { [eventId: number]: Placements };
     manualStatuses: { [eventId: number]: ManualStatus };
     cheeringScores: Scores;
+    adjustments?: ScoreAdjustment[];
+    bracketResults?: { [eventId: number]: BracketResults };
+    actualTimes?: { [eventId: number]: ActualTimes };
+    heatStatuses?: { [eventId: number]: HeatStatuses };
+    substitutions?: Substitution[];
+    missionDraws?: { [eventId: number]: MissionDraw };
+    skippedRows?: SkippedSheetRow[];
+}
+
+// Manual status per heat id of one event
+type HeatStatuses = { [heatId: string]: ManualStatus };
+
+// A signed correction for one class (e.g. -10 for a false start), kept apart from event scores
+interface ScoreAdjustment {
+    id?: string; // assigned when a host adds it on the relay, so it can be removed again
+    className: string;
+    amount: number;
+    reason: string;
+    eventId?: number; // the event it relates to, if any
+    at?: string; // ISO timestamp, or the time text entered in the sheet
+}
+
+// One player swapped for another in one slot of a class's roster, recorded by the host on the day
+interface Substitution {
+    id?: string; // assigned when a host adds it on the relay, so it can be removed again
+    eventId: number;
+    className: string;
+    slot: string; // a runner position ("1", "2", …) or a tug-of-war group ("women", "reserve", …)
+    playerOut: string;
+    playerIn: string;
+    reason: string;
+    at?: string; // ISO timestamp, or the time text entered in the sheet
+}
+
+// A published mission draw. Only the seed is stored; the assignments are drawn from it again
+// on every device, so anyone can check a result by re-running the same seed.
+interface MissionDraw {
+    seed: number;
+    at?: string; // ISO timestamp, or the time text entered in the sheet
+    inputHash?: string; // hashMissionDrawInputs at the time of the draw, when the host published it
+}
+
+// A sheet row that could not be applied, with the reason shown to the sheet owner
+interface SkippedSheetRow {
+    rowNumber: number; // 1-based row number as seen in the spreadsheet (header is row 1)
+    reason: string;
+    cells: string[];
+}
+
+
+// --- CSV Parsing (RFC 4180) ---
+// Splits CSV text into records of raw cell values. Handles quoted fields, "" escapes,
+// CRLF/LF line endings and line breaks inside quoted cells.
+const parseCsv = (csvText: string): string[][] => {
+  const text = csvText.charCodeAt(0) === 0xfeff ? csvText.slice(1) : csvText; // strip BOM
+  const records: string[][] = [];
+  let cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRecord = () => {
+    cells.push(field);
+    records.push(cells);
+    cells = [];
+    field = '';
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+        } else {
+          inQuotes = false;
+          i++;
+        }
+      } else if (ch === '\r' && text[i + 1] === '\n') {
+        field += '\n'; // normalize line breaks inside cells
+        i += 2;
+      } else {
+        field += ch;
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+      i++;
+    } else if (ch === ',') {
+      cells.push(field);
+      field = '';
+      i++;
+    } else if (ch === '\r' || ch === '\n') {
+      i += (ch === '\r' && text[i + 1] === '\n') ? 2 : 1;
+      endRecord();
+    } else {
+      field += ch;
+      i++;
+    }
+  }
+
+  // Flush the last record when the file does not end with a line break
+  if (field !== '' || cells.length > 0) endRecord();
+
+  return records;
+};
+
+// Accepted header names for each column (compared lower-cased, without spaces).
+// The index is the position used only when the first row names none of the columns, i.e. the
+// sheet has no header row. A column the header row does not name resolves to -1 (always empty);
+// a `required` one is reported under that name instead.
+type CsvColumnSpec<C extends string> = { [column in C]: { aliases: string[]; fallbackIndex?: number; required?: string } };
+
+interface CsvColumns<C extends string> {
+  columns: { [column in C]: number };
+  hasHeader: boolean; // false when the first row is data
+  missing: string[]; // required columns a header row does not name
 }
 
+type SheetColumn = 'eventId' | 'className' | 'score' | 'status' | 'placement' | 'reason' | 'timestamp' | 'match' | 'actualStart' | 'actualEnd' | 'heat' | 'slot' | 'playerOut' | 'playerIn' | 'drawSeed';
+
+const SHEET_COLUMNS: CsvColumnSpec<SheetColumn> = {
+  eventId: { aliases: ['eventid', 'event_id', 'id', '경기id', '경기번호', '종목번호', '번호'], fallbackIndex: 0, required: '경기번호' },
+  className: { aliases: ['class', 'classname', 'class_name', '반', '학반', '학급'], fallbackIndex: 1, required: '반' },
+  score: { aliases: ['score', 'points', '점수'], fallbackIndex: 2 },
+  status: { aliases: ['status', 'state', '상태', '진행상태'], fallbackIndex: 3 },
+  placement: { aliases: ['placement', 'place', 'rank', '순위', '등수'] },
+  reason: { aliases: ['reason', '사유', '조정사유', '가감점사유'] },
+  timestamp: { aliases: ['timestamp', 'time', 'at', '시각', '일시', '기록시각'] },
+  match: { aliases: ['match', 'matchid', 'match_id', '대진', '대진번호', '경기코드'] },
+  actualStart: { aliases: ['actualstart', 'actual_start', 'started', '실제시작', '시작시각'] },
+  actualEnd: { aliases: ['actualend', 'actual_end', 'ended', '실제종료', '종료시각'] },
+  heat: { aliases: ['heat', 'heatid', 'heat_id', '히트', '조', '학년조'] },
+  slot: { aliases: ['slot', 'position', '구분', '순번', '자리', '포지션'] },
+  playerOut: { aliases: ['out', 'playerout', 'player_out', '교체전', '나간선수', 'out선수'] },
+  playerIn: { aliases: ['in', 'playerin', 'player_in', '교체후', '들어온선수', 'in선수'] },
+  drawSeed: { aliases: ['seed', 'drawseed', 'draw_seed', '추첨번호', '추첨시드', '시드'] },
+};
+
+const normalizeHeader = (header: string) => header.normalize().trim().toLowerCase().replace(/\s+/g, '');
+
+const resolveCsvColumns = <C extends string,>(headerRow: string[], spec: CsvColumnSpec<C>): CsvColumns<C> => {
+  const headers = headerRow.map(normalizeHeader);
+  const keys = Object.keys(spec) as C[];
+  const columns = {} as { [column in C]: number };
+  const claimed = new Set<number>();
+  keys.forEach(column => {
+    // A header cell belongs to the first column that names it
+    const index = headers.findIndex((header, position) => !claimed.has(position) && spec[column].aliases.includes(header));
+    if (index >= 0) claimed.add(index);
+    columns[column] = index;
+  });
+  if (claimed.size === 0) {
+    keys.forEach(column => {
+      columns[column] = spec[column].fallbackIndex ?? -1;
+    });
+    return { columns, hasHeader: false, missing: [] };
+  }
+  const missing = keys.filter(column => spec[column].required && columns[column] < 0).map(column => spec[column].required!);
+  return { columns, hasHeader: true, missing };
+};
+
+const formatMissingColumns = (missing: string[]): string =>
+  `머리글에 ${missing.map(name => `"${name}"`).join(', ')} 열이 없어 시트를 읽지 않았습니다.`;
+
+// Serializes rows as CSV, quoting cells that contain commas, quotes or line breaks
+const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(',')).join('\r\n');
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+// Mission draw seeds are whole numbers that fit the seeded random generator
+const DRAW_SEED_PATTERN = /^\d{1,9}$/;
+// Bracket match ids look like "g1-r2-m1" (grade, round, match). Double elimination numbers its
+// rounds per bracket: w (winners), l (losers) and f (final).
+const BRACKET_MATCH_ID_PATTERN = /^g\d+-[rwlf]\d+-m\d+$/;
+
+// Heats are usually named after their grade, so "1학년" in the sheet means heat "1"
+const normalizeHeatId = (value: string): string => value.normalize().trim().replace(/\s*학년$/, '');
+
+// Reads "1", "1등", "1위" as a position and "실격"/"DQ" as a disqualification
+const parsePlacement = (value: string): Placement | null => {
+  const normalized = value.normalize().trim().toUpperCase();
+  if (normalized === 'DQ' || normalized === '실격') return 'DQ';
+  const match = /^(\d+)\s*(등|위)?$/.exec(normalized);
+  if (!match) return null;
+  const rank = parseInt(match[1], 10);
+  return rank >= 1 ? rank : null;
+};
+// --- END CSV Parsing ---
+
 
 // --- Data Service (using Google Sheets 'Publish to the web' CSV) ---
 const eventService = {
   // Fetches all dynamic updates from the published sheet
-  async fetchEventUpdates(sheetUrl: string): Promise<SheetUpdates> {
+  async fetchEventUpdates(sheetUrl: string, knownEventIds?: number[]): Promise<SheetUpdates> {
     console.log(`[DATA] Fetching updates from Google Sheet: ${sheetUrl}`);
     
     try {
@@ -72,7 +341,10 @@ const eventService = {
         throw new Error("잘못된 URL 형식입니다. Google Sheets '웹에 게시' 기능에서 'CSV'로 내보낸 링크가 맞는지 확인해주세요.");
       }
       
-      const parsedData = this.parseCsvData(csvText);
+      const parsedData = this.parseCsvData(csvText, knownEventIds);
+      if (parsedData.skippedRows && parsedData.skippedRows.length > 0) {
+        console.warn(`[DATA] Skipped ${parsedData.skippedRows.length} sheet row(s):`, parsedData.skippedRows);
+      }
 
       return parsedData;
 
@@ -82,202 +354,956 @@ const eventService = {
     }
   },
 
-  parseCsvData(csvText: string): SheetUpdates {
+  // Parses the published CSV. Columns are looked up by header name, and every
+  // non-empty row that cannot be applied is reported in `skippedRows` with a reason.
+  parseCsvData(csvText: string, knownEventIds?: number[]): SheetUpdates {
     const CHEERING_SCORE_EVENT_ID = 8;
     const scoresByEvent: { [eventId: number]: Scores } = {};
+    const placementsByEvent: { [eventId: number]: Placements } = {};
     const manualStatuses: { [eventId: number]: ManualStatus } = {};
     const cheeringScores: Scores = {};
+    const adjustments: ScoreAdjustment[] = [];
+    const bracketResults: { [eventId: number]: BracketResults } = {};
+    const actualTimes: { [eventId: number]: ActualTimes } = {};
+    const heatStatuses: { [eventId: number]: HeatStatuses } = {};
+    const substitutions: Substitution[] = [];
+    const missionDraws: { [eventId: number]: MissionDraw } = {};
+    const skippedRows: SkippedSheetRow[] = [];
+
+    const [headerRow = [], ...rows] = parseCsv(csvText);
+    const { columns, hasHeader, missing } = resolveCsvColumns(headerRow, SHEET_COLUMNS);
+    if (missing.length > 0) {
+        skippedRows.push({ rowNumber: 1, reason: formatMissingColumns(missing), cells: headerRow });
+        return { scoresByEvent, placementsByEvent, manualStatuses, cheeringScores, adjustments, bracketResults, actualTimes, heatStatuses, substitutions, missionDraws, skippedRows };
+    }
+    // Substitutions need both name columns in the header; a sheet without them has none
+    const hasSubstitutionColumns = columns.playerOut >= 0 && columns.playerIn >= 0;
 
-    const rows = csvText.trim().split(/\r?\n/).slice(1); // skip header
+    (hasHeader ? rows : [headerRow, ...rows]).forEach((rawCells, index) => {
+        const rowNumber = index + (hasHeader ? 2 : 1); // 1-based, after the header row if there is one
+        const cells = rawCells.map(cell => cell.trim());
+        const skip = (reason: string) => skippedRows.push({ rowNumber, reason, cells });
 
-    rows.forEach(row => {
         // Handle empty rows that can occur in CSV
-        if (!row.trim()) return;
-
-        const cells = row.split(',').map(cell => cell ? cell.trim().replace(/"/g, '') : '');
-        
-        // All valid data rows we care about (scores, statuses) must have an eventId in column A.
-        // Bracket rows (which had an empty column A) are no longer processed.
-        if (cells[0]) {
-            const eventId = parseInt(cells[0], 10);
-            if (isNaN(eventId)) return; // Skip if eventId is not a number
-
-            const className = cells[1];
-            const scoreStr = cells[2];
-            const statusStr = cells[3];
-            const score = parseInt(scoreStr, 10);
+        if (cells.every(cell => !cell)) return;
 
-            // Check if it's a valid score row
-            const isScoreRow = className && !isNaN(score);
-            if (isScoreRow) {
-                if (eventId === CHEERING_SCORE_EVENT_ID) {
-                    cheeringScores[className] = score;
-                } else {
-                    if (!scoresByEvent[eventId]) scoresByEvent[eventId] = {};
-                    scoresByEvent[eventId][className] = score;
-                }
-                return; // A row is either a score or a status, not both.
+        const eventIdStr = cells[columns.eventId] || '';
+        const className = cells[columns.className] || '';
+        const scoreStr = cells[columns.score] || '';
+        const statusStr = (cells[columns.status] || '').normalize();
+        const placementStr = cells[columns.placement] || '';
+        const reasonStr = cells[columns.reason] || '';
+        const matchStr = cells[columns.match] || '';
+        const actualStartStr = cells[columns.actualStart] || '';
+        const actualEndStr = cells[columns.actualEnd] || '';
+        const heatStr = cells[columns.heat] || '';
+        const slotStr = cells[columns.slot] || '';
+        const playerOutStr = cells[columns.playerOut] || '';
+        const playerInStr = cells[columns.playerIn] || '';
+        const drawSeedStr = cells[columns.drawSeed] || '';
+
+        // A row naming a player out or in is a substitution in one slot of a class's roster.
+        // It carries a reason too, so it has to be told apart from an adjustment first.
+        if (hasSubstitutionColumns && (playerOutStr || playerInStr)) {
+            if (!INTEGER_PATTERN.test(eventIdStr) || (knownEventIds && !knownEventIds.includes(parseInt(eventIdStr, 10)))) {
+                skip(`교체의 경기 번호 "${eventIdStr}"을(를) 알 수 없습니다.`);
+                return;
             }
-            
-            // Check if it's a valid status row
-            const cleanStatus = statusStr ? statusStr.normalize() : '';
-            if (cleanStatus === '활성' || cleanStatus === '종료' || cleanStatus === '예정') {
-                 manualStatuses[eventId] = cleanStatus as ManualStatus;
+            if (!className || !playerOutStr || !playerInStr || !reasonStr) {
+                skip('교체에는 반, 나간 선수, 들어온 선수, 사유가 필요합니다.');
+                return;
+            }
+            const slot = normalizeSubstitutionSlot(slotStr);
+            if (!slot) {
+                skip(`교체 구분 "${slotStr}"을(를) 알 수 없습니다. (주자 순번 또는 여자/남자 선발/남자 후발)`);
+                return;
+            }
+            substitutions.push({
+                eventId: parseInt(eventIdStr, 10),
+                className,
+                slot,
+                playerOut: playerOutStr,
+                playerIn: playerInStr,
+                reason: reasonStr,
+                at: cells[columns.timestamp] || undefined,
+            });
+            return;
+        }
+
+        // A row with a reason is an adjustment: a signed amount for one class, optionally
+        // linked to an event. It counts toward the total, not toward the event's score.
+        if (reasonStr) {
+            if (!className || !INTEGER_PATTERN.test(scoreStr)) {
+                skip('가감점에는 반 이름과 정수 점수(예: -10)가 필요합니다.');
+                return;
+            }
+            if (eventIdStr && (!INTEGER_PATTERN.test(eventIdStr) || (knownEventIds && !knownEventIds.includes(parseInt(eventIdStr, 10))))) {
+                skip(`가감점의 경기 번호 "${eventIdStr}"을(를) 알 수 없습니다.`);
+                return;
+            }
+            adjustments.push({
+                className,
+                amount: parseInt(scoreStr, 10),
+                reason: reasonStr,
+                eventId: eventIdStr ? parseInt(eventIdStr, 10) : undefined,
+                at: cells[columns.timestamp] || undefined,
+            });
+            return;
+        }
+
+        // All valid data rows we care about (scores, statuses) must have an event ID. Rows without
+        // one are spacers or labels (e.g. a class name or a note on its own) and are ignored quietly;
+        // only a row that carries a value we would otherwise apply is reported.
+        if (!eventIdStr) {
+            const carriesData = [scoreStr, statusStr, placementStr, matchStr, actualStartStr, actualEndStr, heatStr, drawSeedStr].some(Boolean);
+            if (carriesData) skip('경기 번호가 비어 있습니다.');
+            return;
+        }
+        if (!INTEGER_PATTERN.test(eventIdStr)) {
+            skip(`경기 번호 "${eventIdStr}"이(가) 숫자가 아닙니다.`);
+            return;
+        }
+        const eventId = parseInt(eventIdStr, 10);
+        if (knownEventIds && eventId !== CHEERING_SCORE_EVENT_ID && !knownEventIds.includes(eventId)) {
+            skip(`알 수 없는 경기 번호 ${eventId}입니다.`);
+            return;
+        }
+
+        // Actual start/end times may stand alone or ride along with a status on the same row.
+        if (actualStartStr || actualEndStr) {
+            const start = actualStartStr ? normalizeTime(actualStartStr) : undefined;
+            const end = actualEndStr ? normalizeTime(actualEndStr) : undefined;
+            if (start === null || end === null) {
+                skip(`실제 시각 "${start === null ? actualStartStr : actualEndStr}"은(는) HH:MM 형식이어야 합니다.`);
+                return;
+            }
+            actualTimes[eventId] = { ...actualTimes[eventId], ...(start && { start }), ...(end && { end }) };
+            if (!className && !scoreStr && !statusStr && !placementStr && !matchStr) return;
+        }
+
+        // A seed row publishes the event's mission draw; the last one wins, so a redraw is a new row
+        if (drawSeedStr) {
+            if (!DRAW_SEED_PATTERN.test(drawSeedStr)) {
+                skip(`추첨 번호 "${drawSeedStr}"은(는) 9자리 이하의 숫자여야 합니다.`);
+                return;
+            }
+            missionDraws[eventId] = { seed: parseInt(drawSeedStr, 10), at: cells[columns.timestamp] || undefined };
+            return;
+        }
+
+        // A heat row marks one heat's status. On a class row the heat is only a label; results
+        // are per class, and a class belongs to its grade's heat anyway.
+        if (heatStr && !className) {
+            if (statusStr === '활성' || statusStr === '종료' || statusStr === '예정') {
+                if (!heatStatuses[eventId]) heatStatuses[eventId] = {};
+                heatStatuses[eventId][normalizeHeatId(heatStr)] = statusStr;
+            } else {
+                skip(statusStr ? `알 수 없는 상태 "${statusStr}"입니다. (활성/종료/예정 중 하나)` : `${heatStr} 조의 상태가 비어 있습니다.`);
+            }
+            return;
+        }
+
+        // A match row records the official winner of one bracket match (e.g. "g1-r1-m2").
+        if (matchStr) {
+            if (!className) {
+                skip(`대진 ${matchStr}의 승리 반이 비어 있습니다.`);
+                return;
+            }
+            if (!BRACKET_MATCH_ID_PATTERN.test(matchStr)) {
+                skip(`대진 번호 "${matchStr}"을(를) 알 수 없습니다. (예: g1-r1-m2)`);
+                return;
+            }
+            // A series has one row per game, in the order they were played
+            if (!bracketResults[eventId]) bracketResults[eventId] = {};
+            if (!bracketResults[eventId][matchStr]) bracketResults[eventId][matchStr] = [];
+            bracketResults[eventId][matchStr].push(className);
+            return;
+        }
+
+        // A placement row records a finishing position; the scoring engine turns it into points.
+        // It may also carry a raw score, which is kept but overridden by the placement.
+        if (className && placementStr) {
+            const placement = parsePlacement(placementStr);
+            if (placement === null) {
+                skip(`순위 "${placementStr}"을(를) 알 수 없습니다. (1, 2, 3… 또는 실격)`);
+                return;
             }
+            if (eventId === CHEERING_SCORE_EVENT_ID) {
+                skip('질서 응원 점수에는 순위를 입력할 수 없습니다.');
+                return;
+            }
+            if (!placementsByEvent[eventId]) placementsByEvent[eventId] = {};
+            placementsByEvent[eventId][className] = placement;
+            if (!scoreStr) return;
+        }
+
+        // A row is either a score or a status, not both.
+        if (className && scoreStr) {
+            if (!INTEGER_PATTERN.test(scoreStr)) {
+                skip(`점수 "${scoreStr}"이(가) 숫자가 아닙니다.`);
+                return;
+            }
+            const score = parseInt(scoreStr, 10);
+            if (eventId === CHEERING_SCORE_EVENT_ID) {
+                cheeringScores[className] = score;
+            } else {
+                if (!scoresByEvent[eventId]) scoresByEvent[eventId] = {};
+                scoresByEvent[eventId][className] = score;
+            }
+            return;
+        }
+
+        if (statusStr) {
+            if (statusStr === '활성' || statusStr === '종료' || statusStr === '예정') {
+                manualStatuses[eventId] = statusStr;
+            } else {
+                skip(`알 수 없는 상태 "${statusStr}"입니다. (활성/종료/예정 중 하나)`);
+            }
+            return;
+        }
+
+        if (scoreStr) {
+            skip('점수가 있지만 반 이름이 비어 있습니다.');
+        } else {
+            skip(className ? `${className}의 점수 또는 순위가 비어 있습니다.` : '점수, 순위 또는 상태 값이 없습니다.');
         }
     });
 
-    return { scoresByEvent, manualStatuses, cheeringScores };
+    return { scoresByEvent, placementsByEvent, manualStatuses, cheeringScores, adjustments, bracketResults, actualTimes, heatStatuses, substitutions, missionDraws, skippedRows };
   }
 };
 // --- END Data Service ---
 
-// --- Initial Data (Static part of the events) ---
-const getInitialEvents = (): SportsEventData[] => {
-  const fiveClassMissions = {
-    '1번 주자 (여자)': [
-      '바통 정하기 (오렌지)',
-      '바통 정하기 (같은 반 친구 한 명)',
-      '바통 정하기 (대형 바통)',
-      '바통 정하기 (배구공)',
-      '바통 정하기 (클립)'
-    ],
-    '2번 주자 (남자)': [
-      '한발로 달리기',
-      '경보',
-      '물 안 쏟고 달리기',
-      '뒷주자와 함께 2인 3각',
-      '훌라후프하며 달리기'
-    ],
-    '3번 주자 (여자)': [
-      '숟가락에 탁구공 올리고 달리기',
-      '줄넘기하며 달리기',
-      '인물 데리고 달리기',
-      '뒤로 달리기',
-      '배구공 드리블하며 달리기'
-    ],
-    '4번 주자 (남자) (성공해야 출발가능)': [
-      '밀가루 속 사탕 얼굴로 찾아서 보여주기',
-      '코끼리 코 20바퀴',
-      '풍선 5개 터뜨리기',
-      '슬리퍼 던져서 바구니(훌라후프)에 넣기',
-      '강냉이 5개 던져서 입에 넣기'
-    ]
-  };
+// --- Relay Service (local Host-mode relay server, see relay-server.js) ---
+// Thrown when the relay rejects a write because the host token is missing or expired
+class RelayAuthError extends Error {}
 
-  const fourClassMissions = {
-    '1번 주자 (여자)': [
-      '바통 정하기 (오렌지)',
-      '바통 정하기 (같은 반 친구 한 명)',
-      '바통 정하기 (대형 바통)',
-      '바통 정하기 (배구공)'
-    ],
-    '2번 주자 (남자)': [
-      '한발로 달리기',
-      '물 안 쏟고 달리기',
-      '뒷주자와 함께 2인 3각',
-      '훌라후프하며 달리기'
-    ],
-    '3번 주자 (여자)': [
-      '줄넘기하며 달리기',
-      '인물 데리고 달리기',
-      '뒤로 달리기',
-      '배구공 드리블하며 달리기'
-    ],
-    '4번 주자 (남자) (성공해야 출발가능)': [
-      '밀가루 속 사탕 얼굴로 찾아서 보여주기',
-      '풍선 5개 터뜨리기',
-      '슬리퍼 던져서 바구니(훌라후프)에 넣기',
-      '강냉이 5개 던져서 입에 넣기'
-    ]
-  };
+const relayService = {
+  normalizeUrl(relayUrl: string): string {
+    return relayUrl.trim().replace(/\/+$/, '');
+  },
 
-  const tugOfWarPlayers = {
-    '1': {
-      '1-1': { women: ['강혜윤', '정지이', '김승연', '김은혜', '김가율', '이시현', '김혜인', '김소연'], men_vanguard: ['이수민', '윤준서', '김주원', '한우석'], men_rearguard: ['홍준서', '전민규', '정지우', '배서준'], reserve: ['조용민', '이하진'] },
-      '1-2': { women: ['배지은', '백단비', '박수민', '양세경', '이사랑', '조아라', '김여준', '전다은'], men_vanguard: ['김준성', '서지후', '이서준', '정태환'], men_rearguard: ['김찬수', '유승호', '이희수', '최시우'], reserve: ['박민찬', '서연정'] },
-      '1-3': { women: ['김사랑', '정지우', '김윤서', '이수정', '유해인', '이자은'], men_vanguard: ['백승준', '윤홍민', '이서원', '정윤재'], men_rearguard: ['김신우', '양건우', '오태준', '박서준'], reserve: [] },
-      '1-4': { women: ['김태연', '방아인', '강혜연', '은서연', '김민서', '이채윤', '임규리', '최지은'], men_vanguard: ['박용원', '김동현', '김지완', '서민재'], men_rearguard: ['오성민', '안태산', '이지웅', '한서준'], reserve: ['김희찬', '이우혁', '김혜림', '권도연'] },
-      '1-5': { women: ['김다은', '김보민', '김지현', '윤현서', '이서윤', '이수지', '이지수', '전영은'], men_vanguard: ['손정무', '이현태', '김주찬', '김도훈'], men_rearguard: ['신연우', '김지호', '유민혁', '김규담'], reserve: ['홍시우', '최서진', '이서윤', '정혜원'] },
-    },
-    '2': {
-      '2-1': { women: ['선우서윤', '이진', '한예지', '류예원', '차수아', '최윤아', '김봄', '남지우', '배현주', '정지우', '이유진', '심지민'], men_vanguard: ['이지안', '황시후', '조민준', '이도윤', '박주형'], men_rearguard: ['주지성', '김지형', '김은우', '이태준', '안성재'], reserve: ['안성재'] },
-      '2-2': { women: ['강도현', '권희윤', '김다영', '김민서', '김수진', '공예주', '성솔지', '이예나', '이하은', '남지수', '백소희', '조가율'], men_vanguard: ['우상혁', '김형준', '이주원', '박수호', '나연호'], men_rearguard: ['양정혁', '임형준', '이유건', '서희', '김현성'], reserve: ['최인혁', '전민성', '이다인', '기민서'] },
-      '2-3': { women: ['임다현', '장지은', '강다혜', '노은지', '전서현', '최지유', '강민지', '유지수', '강은호', '도예슬', '고서연', '이지인'], men_vanguard: ['신우태', '장동우', '박현태', '김서준', '염시혁'], men_rearguard: ['이준', '안은찬', '김성태', '김우현', '이우영'], reserve: ['조동찬', '김민형', '염지효'] },
-      '2-4': { women: ['홍지민', '진서현', '이예서', '지의정', '한지효', '오윤서', '최지효', '김민서'], men_vanguard: ['김여준', '이준수', '임선호', '최민준'], men_rearguard: ['권도윤', '정율', '안성진', '문현준'], reserve: ['신유진', '김기준', '서예담'] },
-    },
-    '3': {
-      '3-1': { women: ['정하율', '김희서', '이채원', '윤유진', '이자빈', '김예나', '서재인', '권도희', '김별', '황자빈'], men_vanguard: ['이서후', '안수찬', '김혜강', '윤홍현', '지성빈', '강현성'], men_rearguard: ['임하윤', '백석훈', '한규선', '박예준', '이재호', '서현준'], reserve: ['박찬유', '이율'] },
-      '3-2': { women: ['김다은', '이하윤', '김하늘', '이화은', '신수빈', '임예주', '양은서', '하윤지', '이서정', '허수빈'], men_vanguard: ['이태환', '이시현', '이서준', '소지혁', '오원재', '이선율'], men_rearguard: ['허유찬', '이희준', '최한결', '최지훈', '김재유', '임성준'], reserve: ['박진성', '박시은'] },
-      '3-3': { women: ['장지연', '김다희', '이루미', '채희원', '배가은', '이다인', '안지현', '김가은', '박정윤', '정혜인'], men_vanguard: ['윤지효', '이성윤', '이지호', '김규민', '서진유', '송주원'], men_rearguard: ['오건우', '임시현', '유경민', '송민혁', '이유찬', '서귀석'], reserve: ['김강민', '김민준', '박슬기'] },
-      '3-4': { women: ['이슬채', '서영진', '손예주', '김서윤', '박지우', '안은서', '문예빈', '정혜원', '이하린', '김가은'], men_vanguard: ['윤중근', '엄재민', '권도훈', '김범준', '김경필', '고도윤'], men_rearguard: ['박진오', '정율원', '박영현', '윤태영', '안주훈', '이준혁'], reserve: ['이연우', '박지후'] },
-      '3-5': { women: ['김나연', '고다윤', '최윤아', '이유진', '김단아', '오채현', '강한나', '권도연', '임서영', '김수인'], men_vanguard: ['최시우', '이윤제', '김예찬', '최지호', '류강민', '김주훈'], men_rearguard: ['장재빈', '장승훈', '박성원', '이강휘', '유영진', '임서준'], reserve: ['곽덕환', '이희승', '박채은', '진다빈'] },
+  async fetchEventUpdates(relayUrl: string): Promise<SheetUpdates> {
+    console.log(`[DATA] Fetching updates from relay server: ${relayUrl}`);
+    const response = await fetch(`${this.normalizeUrl(relayUrl)}/updates`, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`중계 서버 응답 오류: ${response.status} ${response.statusText}`);
     }
-  };
-  
-  const missionRunningPlayers = {
-    '1': {
-      '1-1': ['이시연', '김주원', '강혜원', '채종혁'],
-      '1-2': ['양세경', '김준성', '배지은', '최시우'],
-      '1-3': ['김예빈', '박서준', '안유나', '신재훈'],
-      '1-4': ['방아인', '이우혁', '은서연', '이지웅'],
-      '1-5': ['김다은', '김지호', '이지수', '김주찬'],
-    },
-    '2': {
-      '2-1': ['최윤아', '황시후', '선우서윤', '박주형'],
-      '2-2': ['이하은', '우상혁', '김민서', '서희'],
-      '2-3': ['임다현', '장동우', '강민지', '박현태'],
-      '2-4': ['지의정', '권도윤', '한지효', '문현준'],
-    },
-    '3': {
-      '3-1': ['이자빈', '윤홍현', '윤유진', '이서후'],
-      '3-2': ['허수빈', '소지혁', '김다은', '임성준'],
-      '3-3': ['배가은', '서진유', '김다희', '임시현'],
-      '3-4': ['안은서', '김범준', '김서윤', '김경필'],
-      '3-5': ['고다윤', '김예찬', '이유진', '김주훈'],
+    return await response.json() as SheetUpdates;
+  },
+
+  async login(relayUrl: string, password: string): Promise<string> {
+    const response = await fetch(`${this.normalizeUrl(relayUrl)}/auth`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new RelayAuthError(body.error || '로그인에 실패했습니다.');
     }
-  };
+    return body.token as string;
+  },
 
-  const relayRacePlayers = {
-    '1': {
-      '1-1': ['이하진', '한우석', '김소연', '윤준서'],
-      '1-2': ['전다은', '이서준', '이사랑', '박민찬'],
-      '1-3': ['정유리나', '박유능', '채희은', '우승현'],
-      '1-4': ['강혜원', '서민재', '강태연', '김동현'],
-      '1-5': ['김보민', '손정무', '윤현서', '유민혁'],
-    },
-    '2': {
-      '2-1': ['이진', '이지안', '김봄', '송물결'],
-      '2-2': ['권희윤', '최인혁', '이예소', '이유진'],
-      '2-3': ['전서현', '이준', '강다혜', '염시혁'],
-      '2-4': ['홍지민', '이준수', '오윤서', '임선호'],
-    },
-    '3': {
-      '3-1': ['이채원', '김혜강', '김예나', '유창민'],
-      '3-2': ['하윤지', '이시현', '신수빈', '최한결'],
-      '3-3': ['장지연', '이지호', '이루미', '오건우'],
-      '3-4': ['이하린', '윤중근', '손예주', '고도윤'],
-      '3-5': ['김나연', '최지호', '최윤아', '류강민'],
+  async write(relayUrl: string, token: string, path: string, payload: object, method: 'PUT' | 'POST' | 'DELETE' = 'PUT'): Promise<SheetUpdates> {
+    const response = await fetch(`${this.normalizeUrl(relayUrl)}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(payload),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (response.status === 401) {
+      throw new RelayAuthError(body.error || '호스트 인증이 만료되었습니다. 다시 로그인해주세요.');
     }
-  };
+    if (!response.ok) {
+      throw new Error(body.error || `저장에 실패했습니다. (${response.status})`);
+    }
+    return body as SheetUpdates;
+  },
 
-  return [
-    { id: 0, title: '준비운동 및 개회식', startTime: '08:50', endTime: '09:15', location: '운동장' },
-    {
-      id: 1,
-      title: '미션 달리기',
-      startTime: '09:15',
-      endTime: '10:10',
-      location: '운동장',
-      scores: { '1-1': 0, '1-2': 0, '1-3': 0, '1-4': 0, '1-5': 0, '2-1': 0, '2-2': 0, '2-3': 0, '2-4': 0, '3-1': 0, '3-2': 0, '3-3': 0, '3-4': 0, '3-5': 0 },
-      rules: `1. 주자는 결승점을 향해 달리면서 주어진 미션을 하나씩 수행해야 합니다.
+  saveEventScores(relayUrl: string, token: string, eventId: number, scores: Scores) {
+    return this.write(relayUrl, token, `/events/${eventId}/scores`, { scores });
+  },
 
-  2. 미션을 성공적으로 완료하고 다음 주자에게 이어 달리기를 하면 됩니다.
+  saveEventPlacements(relayUrl: string, token: string, eventId: number, placements: Placements) {
+    return this.write(relayUrl, token, `/events/${eventId}/placements`, { placements });
+  },
 
-  3. 모든 주자가 미션을 마치고 가장 먼저 결승선을 통과한 팀이 승리합니다.`,
-      missions: {
-        '1': fiveClassMissions,
-        '2': fourClassMissions,
+  saveEventStatus(relayUrl: string, token: string, eventId: number, status: ManualStatus | null) {
+    return this.write(relayUrl, token, `/events/${eventId}/status`, { status });
+  },
+
+  saveHeatStatus(relayUrl: string, token: string, eventId: number, heatId: string, status: ManualStatus | null) {
+    return this.write(relayUrl, token, `/events/${eventId}/heats/${encodeURIComponent(heatId)}/status`, { status });
+  },
+
+  // Missing times clear what was recorded before
+  saveActualTimes(relayUrl: string, token: string, eventId: number, times: ActualTimes) {
+    return this.write(relayUrl, token, `/events/${eventId}/times`, { start: times.start ?? null, end: times.end ?? null });
+  },
+
+  saveCheeringScores(relayUrl: string, token: string, scores: Scores) {
+    return this.write(relayUrl, token, '/cheering', { scores });
+  },
+
+  // Adjustments are added and removed one by one; the relay assigns the id
+  addAdjustment(relayUrl: string, token: string, adjustment: ScoreAdjustment) {
+    return this.write(relayUrl, token, '/adjustments', { adjustment }, 'POST');
+  },
+
+  removeAdjustment(relayUrl: string, token: string, id: string) {
+    return this.write(relayUrl, token, `/adjustments/${encodeURIComponent(id)}`, {}, 'DELETE');
+  },
+
+  // Substitutions are added and removed one by one too
+  addSubstitution(relayUrl: string, token: string, substitution: Substitution) {
+    return this.write(relayUrl, token, '/substitutions', { substitution }, 'POST');
+  },
+
+  removeSubstitution(relayUrl: string, token: string, id: string) {
+    return this.write(relayUrl, token, `/substitutions/${encodeURIComponent(id)}`, {}, 'DELETE');
+  },
+
+  // Publishes (or with null, withdraws) an event's mission draw
+  saveMissionDraw(relayUrl: string, token: string, eventId: number, draw: MissionDraw | null) {
+    return this.write(relayUrl, token, `/events/${eventId}/mission-draw`, { draw });
+  },
+
+  // Replaces one match's games ([] clears it). `previous` is what the host saw, so the relay can refuse
+  // when another host changed the match first; the format tells it whether draws are allowed.
+  saveMatchResult(relayUrl: string, token: string, eventId: number, matchId: string, games: string[], previous: string[], format: BracketFormat) {
+    return this.write(relayUrl, token, `/events/${eventId}/bracket/${encodeURIComponent(matchId)}`, { games, previous, format });
+  },
+};
+// --- END Relay Service ---
+
+// --- Live Update Channel ---
+// A push channel delivers a full `snapshot` when it connects and `diff`s afterwards.
+// When no channel can be opened, SportsDayApp falls back to polling the data source.
+type UpdateMode = 'connecting' | 'push' | 'polling';
+
+// Partial SheetUpdates: each event's scores are replaced whole, a null status clears the override,
+// adjustments and substitutions are added or (with null) removed by id, and bracket results per match
+interface SheetUpdatesDiff {
+  scoresByEvent?: { [eventId: number]: Scores };
+  placementsByEvent?: { [eventId: number]: Placements };
+  manualStatuses?: { [eventId: number]: ManualStatus | null };
+  cheeringScores?: Scores;
+  adjustmentsById?: { [id: string]: ScoreAdjustment | null };
+  bracketResultsByMatch?: { [eventId: number]: { [matchId: string]: string[] | null } };
+  actualTimes?: { [eventId: number]: ActualTimes | null };
+  heatStatuses?: { [eventId: number]: HeatStatuses }; // replaced whole per event
+  substitutionsById?: { [id: string]: Substitution | null };
+  missionDraws?: { [eventId: number]: MissionDraw | null };
+}
+
+interface UpdateChannelHandlers {
+  onOpen: () => void;
+  onSnapshot: (updates: SheetUpdates) => void;
+  onDiff: (diff: SheetUpdatesDiff) => void;
+  onUnavailable: () => void;
+}
+
+interface UpdateChannel {
+  close: () => void;
+}
+
+const applySheetUpdatesDiff = (prev: SheetUpdates, diff: SheetUpdatesDiff): SheetUpdates => {
+  const actualTimes = { ...prev.actualTimes };
+  if (diff.actualTimes) {
+    Object.keys(diff.actualTimes).forEach(key => {
+      const eventId = Number(key);
+      const times = diff.actualTimes![eventId];
+      if (times) {
+        actualTimes[eventId] = times;
+      } else {
+        delete actualTimes[eventId];
+      }
+    });
+  }
+  const missionDraws = { ...prev.missionDraws };
+  if (diff.missionDraws) {
+    Object.keys(diff.missionDraws).forEach(key => {
+      const eventId = Number(key);
+      const draw = diff.missionDraws![eventId];
+      if (draw) {
+        missionDraws[eventId] = draw;
+      } else {
+        delete missionDraws[eventId];
+      }
+    });
+  }
+  let adjustments = prev.adjustments;
+  if (diff.adjustmentsById) {
+    Object.keys(diff.adjustmentsById).forEach(id => {
+      const adjustment = diff.adjustmentsById![id];
+      adjustments = adjustments.filter(existing => existing.id !== id);
+      if (adjustment) adjustments = [...adjustments, adjustment];
+    });
+  }
+  let substitutions = prev.substitutions || [];
+  if (diff.substitutionsById) {
+    Object.keys(diff.substitutionsById).forEach(id => {
+      const substitution = diff.substitutionsById![id];
+      substitutions = substitutions.filter(existing => existing.id !== id);
+      if (substitution) substitutions = [...substitutions, substitution];
+    });
+  }
+  const bracketResults = { ...prev.bracketResults };
+  if (diff.bracketResultsByMatch) {
+    Object.keys(diff.bracketResultsByMatch).forEach(key => {
+      const eventId = Number(key);
+      const matches = diff.bracketResultsByMatch![eventId];
+      const eventResults = { ...bracketResults[eventId] };
+      Object.keys(matches).forEach(matchId => {
+        const games = matches[matchId];
+        if (games) {
+          eventResults[matchId] = games;
+        } else {
+          delete eventResults[matchId];
+        }
+      });
+      bracketResults[eventId] = eventResults;
+    });
+  }
+  const manualStatuses = { ...prev.manualStatuses };
+  if (diff.manualStatuses) {
+    Object.keys(diff.manualStatuses).forEach(key => {
+      const eventId = Number(key);
+      const status = diff.manualStatuses![eventId];
+      if (status) {
+        manualStatuses[eventId] = status;
+      } else {
+        delete manualStatuses[eventId];
+      }
+    });
+  }
+  return {
+    ...prev,
+    scoresByEvent: diff.scoresByEvent ? { ...prev.scoresByEvent, ...diff.scoresByEvent } : prev.scoresByEvent,
+    placementsByEvent: diff.placementsByEvent ? { ...prev.placementsByEvent, ...diff.placementsByEvent } : prev.placementsByEvent,
+    manualStatuses,
+    cheeringScores: diff.cheeringScores ?? prev.cheeringScores,
+    adjustments,
+    bracketResults,
+    actualTimes,
+    heatStatuses: diff.heatStatuses ? { ...prev.heatStatuses, ...diff.heatStatuses } : prev.heatStatuses,
+    substitutions,
+    missionDraws,
+  };
+};
+
+const createSseUpdateChannel = (streamUrl: string, handlers: UpdateChannelHandlers): UpdateChannel => {
+  const source = new EventSource(streamUrl);
+  let closed = false;
+
+  const close = () => {
+    closed = true;
+    source.close();
+  };
+
+  const parse = <T,>(event: Event): T | null => {
+    try {
+      return JSON.parse((event as MessageEvent<string>).data) as T;
+    } catch (error) {
+      console.error('[PUSH] Ignoring malformed stream message:', error);
+      return null;
+    }
+  };
+
+  source.onopen = () => handlers.onOpen();
+  source.addEventListener('snapshot', event => {
+    const updates = parse<SheetUpdates>(event);
+    if (updates) handlers.onSnapshot(updates);
+  });
+  source.addEventListener('diff', event => {
+    const diff = parse<SheetUpdatesDiff>(event);
+    if (diff) handlers.onDiff(diff);
+  });
+  // EventSource retries on its own, but we hand control back to polling instead
+  // so the scoreboard keeps updating while the stream is down.
+  source.onerror = () => {
+    if (closed) return;
+    close();
+    handlers.onUnavailable();
+  };
+
+  return { close };
+};
+// --- END Live Update Channel ---
+
+// --- Event Data Sources ---
+// Every place the app reads scores from implements EventDataSource and returns the
+// same SheetUpdates shape, so the UI does not care where the data comes from.
+type DataSourceConfig =
+  | { kind: 'sheet'; url: string }
+  | { kind: 'relay'; url: string }
+  | { kind: 'json'; url: string }
+  | { kind: 'json-file'; fileName: string; content: string }
+  | { kind: 'memory' }
+  | { kind: 'mock'; url: string };
+
+type DataSourceKind = DataSourceConfig['kind'];
+
+interface EventDataSource {
+  kind: DataSourceKind;
+  label: string;
+  fetchEventUpdates: (knownEventIds: number[]) => Promise<SheetUpdates>;
+  pushStreamUrl?: string; // set when the source can push live updates
+}
+
+const DATA_SOURCE_LABELS: { [kind in DataSourceKind]: string } = {
+  sheet: 'Google Sheet',
+  relay: '중계 서버',
+  json: 'JSON URL',
+  'json-file': 'JSON 파일',
+  memory: '데모 데이터',
+  mock: '모의 서버',
+};
+
+// Validates a SheetUpdates-shaped JSON document. Invalid entries are dropped and
+// reported through skippedRows, the same way bad sheet rows are.
+const normalizeSheetUpdates = (raw: unknown): SheetUpdates => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('JSON 데이터는 scoresByEvent, manualStatuses, cheeringScores 항목을 가진 객체여야 합니다.');
+  }
+  const data = raw as { [key: string]: unknown };
+  const skippedRows: SkippedSheetRow[] = [];
+  let entryNumber = 0;
+  const skip = (reason: string, cells: string[]) => skippedRows.push({ rowNumber: ++entryNumber, reason, cells });
+  const isRecord = (value: unknown): value is { [key: string]: unknown } => !!value && typeof value === 'object' && !Array.isArray(value);
+
+  const readScores = (value: unknown, path: string): Scores => {
+    const scores: Scores = {};
+    if (!isRecord(value)) return scores;
+    Object.keys(value).forEach(className => {
+      const score = value[className];
+      if (typeof score === 'number' && Number.isInteger(score)) {
+        scores[className] = score;
+      } else {
+        skip(`${path}.${className}: 점수 "${String(score)}"이(가) 정수가 아닙니다.`, [path, className, String(score)]);
+      }
+    });
+    return scores;
+  };
+
+  const scoresByEvent: { [eventId: number]: Scores } = {};
+  if (isRecord(data.scoresByEvent)) {
+    Object.keys(data.scoresByEvent).forEach(key => {
+      if (!INTEGER_PATTERN.test(key)) {
+        skip(`경기 번호 "${key}"이(가) 숫자가 아닙니다.`, ['scoresByEvent', key]);
+        return;
+      }
+      scoresByEvent[Number(key)] = readScores((data.scoresByEvent as { [key: string]: unknown })[key], `scoresByEvent.${key}`);
+    });
+  }
+
+  const placementsByEvent: { [eventId: number]: Placements } = {};
+  if (isRecord(data.placementsByEvent)) {
+    Object.keys(data.placementsByEvent).forEach(key => {
+      const value = (data.placementsByEvent as { [key: string]: unknown })[key];
+      if (!INTEGER_PATTERN.test(key) || !isRecord(value)) {
+        skip(`placementsByEvent.${key}: 경기별 순위 형식이 올바르지 않습니다.`, ['placementsByEvent', key]);
+        return;
+      }
+      const placements: Placements = {};
+      Object.keys(value).forEach(className => {
+        const placement = typeof value[className] === 'number' || typeof value[className] === 'string'
+          ? parsePlacement(String(value[className]))
+          : null;
+        if (placement === null) {
+          skip(`placementsByEvent.${key}.${className}: 순위 "${String(value[className])}"을(를) 알 수 없습니다.`, ['placementsByEvent', key, className]);
+        } else {
+          placements[className] = placement;
+        }
+      });
+      placementsByEvent[Number(key)] = placements;
+    });
+  }
+
+  const manualStatuses: { [eventId: number]: ManualStatus } = {};
+  if (isRecord(data.manualStatuses)) {
+    Object.keys(data.manualStatuses).forEach(key => {
+      const status = (data.manualStatuses as { [key: string]: unknown })[key];
+      if (INTEGER_PATTERN.test(key) && (status === '활성' || status === '종료' || status === '예정')) {
+        manualStatuses[Number(key)] = status;
+      } else {
+        skip(`manualStatuses.${key}: 알 수 없는 상태 "${String(status)}"입니다.`, ['manualStatuses', key, String(status)]);
+      }
+    });
+  }
+
+  const adjustments: ScoreAdjustment[] = [];
+  if (Array.isArray(data.adjustments)) {
+    data.adjustments.forEach((value: unknown, index) => {
+      const path = `adjustments.${index}`;
+      if (!isRecord(value) || typeof value.className !== 'string' || !value.className.trim()
+          || typeof value.amount !== 'number' || !Number.isInteger(value.amount)
+          || typeof value.reason !== 'string' || !value.reason.trim()) {
+        skip(`${path}: 가감점에는 className, 정수 amount, reason이 필요합니다.`, [path]);
+        return;
+      }
+      if (value.eventId !== undefined && !(typeof value.eventId === 'number' && Number.isInteger(value.eventId))) {
+        skip(`${path}: 경기 번호 "${String(value.eventId)}"이(가) 정수가 아닙니다.`, [path, String(value.eventId)]);
+        return;
+      }
+      adjustments.push({
+        id: typeof value.id === 'string' ? value.id : undefined,
+        className: value.className,
+        amount: value.amount,
+        reason: value.reason,
+        eventId: value.eventId as number | undefined,
+        at: typeof value.at === 'string' ? value.at : undefined,
+      });
+    });
+  }
+
+  const bracketResults: { [eventId: number]: BracketResults } = {};
+  if (isRecord(data.bracketResults)) {
+    Object.keys(data.bracketResults).forEach(key => {
+      const value = (data.bracketResults as { [key: string]: unknown })[key];
+      if (!INTEGER_PATTERN.test(key) || !isRecord(value)) {
+        skip(`bracketResults.${key}: 대진 결과 형식이 올바르지 않습니다.`, ['bracketResults', key]);
+        return;
+      }
+      const results: BracketResults = {};
+      Object.keys(value).forEach(matchId => {
+        // A plain class name is accepted as a single-game result
+        const games = typeof value[matchId] === 'string' ? [value[matchId]] : value[matchId];
+        if (BRACKET_MATCH_ID_PATTERN.test(matchId) && Array.isArray(games)
+            && games.every(winner => typeof winner === 'string' && winner.trim())) {
+          results[matchId] = games as string[];
+        } else {
+          skip(`bracketResults.${key}.${matchId}: 대진 번호 또는 승리 반을 알 수 없습니다.`, ['bracketResults', key, matchId, String(value[matchId])]);
+        }
+      });
+      bracketResults[Number(key)] = results;
+    });
+  }
+
+  const actualTimes: { [eventId: number]: ActualTimes } = {};
+  if (isRecord(data.actualTimes)) {
+    Object.keys(data.actualTimes).forEach(key => {
+      const value = (data.actualTimes as { [key: string]: unknown })[key];
+      const start = isRecord(value) && value.start !== undefined ? normalizeTime(value.start) : undefined;
+      const end = isRecord(value) && value.end !== undefined ? normalizeTime(value.end) : undefined;
+      if (!INTEGER_PATTERN.test(key) || !isRecord(value) || start === null || end === null) {
+        skip(`actualTimes.${key}: 실제 시각은 HH:MM 형식의 start/end여야 합니다.`, ['actualTimes', key]);
+        return;
+      }
+      actualTimes[Number(key)] = { ...(start && { start }), ...(end && { end }) };
+    });
+  }
+
+  const heatStatuses: { [eventId: number]: HeatStatuses } = {};
+  if (isRecord(data.heatStatuses)) {
+    Object.keys(data.heatStatuses).forEach(key => {
+      const value = (data.heatStatuses as { [key: string]: unknown })[key];
+      if (!INTEGER_PATTERN.test(key) || !isRecord(value)) {
+        skip(`heatStatuses.${key}: 조별 상태 형식이 올바르지 않습니다.`, ['heatStatuses', key]);
+        return;
+      }
+      const statuses: HeatStatuses = {};
+      Object.keys(value).forEach(heatId => {
+        const status = value[heatId];
+        if (status === '활성' || status === '종료' || status === '예정') {
+          statuses[normalizeHeatId(heatId)] = status;
+        } else {
+          skip(`heatStatuses.${key}.${heatId}: 알 수 없는 상태 "${String(status)}"입니다.`, ['heatStatuses', key, heatId, String(status)]);
+        }
+      });
+      heatStatuses[Number(key)] = statuses;
+    });
+  }
+
+  const substitutions: Substitution[] = [];
+  if (Array.isArray(data.substitutions)) {
+    data.substitutions.forEach((value: unknown, index) => {
+      const path = `substitutions.${index}`;
+      const isName = (name: unknown): name is string => typeof name === 'string' && !!name.trim();
+      if (!isRecord(value) || !(typeof value.eventId === 'number' && Number.isInteger(value.eventId))
+          || !isName(value.className) || !isName(value.playerOut) || !isName(value.playerIn) || !isName(value.reason)) {
+        skip(`${path}: 교체에는 정수 eventId, className, playerOut, playerIn, reason이 필요합니다.`, [path]);
+        return;
+      }
+      const slot = typeof value.slot === 'string' || typeof value.slot === 'number' ? normalizeSubstitutionSlot(String(value.slot)) : null;
+      if (!slot) {
+        skip(`${path}: 교체 구분 "${String(value.slot)}"을(를) 알 수 없습니다.`, [path, String(value.slot)]);
+        return;
+      }
+      substitutions.push({
+        id: typeof value.id === 'string' ? value.id : undefined,
+        eventId: value.eventId,
+        className: value.className,
+        slot,
+        playerOut: value.playerOut,
+        playerIn: value.playerIn,
+        reason: value.reason,
+        at: typeof value.at === 'string' ? value.at : undefined,
+      });
+    });
+  }
+
+  const missionDraws: { [eventId: number]: MissionDraw } = {};
+  if (isRecord(data.missionDraws)) {
+    Object.keys(data.missionDraws).forEach(key => {
+      const value = (data.missionDraws as { [key: string]: unknown })[key];
+      if (!INTEGER_PATTERN.test(key) || !isRecord(value) || typeof value.seed !== 'number' || !DRAW_SEED_PATTERN.test(String(value.seed))) {
+        skip(`missionDraws.${key}: 추첨에는 9자리 이하의 정수 seed가 필요합니다.`, ['missionDraws', key]);
+        return;
+      }
+      missionDraws[Number(key)] = {
+        seed: value.seed,
+        at: typeof value.at === 'string' ? value.at : undefined,
+        inputHash: typeof value.inputHash === 'string' ? value.inputHash : undefined,
+      };
+    });
+  }
+
+  return {
+    scoresByEvent,
+    placementsByEvent,
+    manualStatuses,
+    cheeringScores: readScores(data.cheeringScores, 'cheeringScores'),
+    adjustments,
+    bracketResults,
+    actualTimes,
+    heatStatuses,
+    substitutions,
+    missionDraws,
+    skippedRows,
+  };
+};
+
+const fetchJsonUpdates = async (url: string): Promise<SheetUpdates> => {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`데이터를 불러오지 못했습니다: ${response.status} ${response.statusText}`);
+  }
+  return normalizeSheetUpdates(await response.json());
+};
+
+// Sample snapshot used by the in-memory demo source, for rehearsals without any server
+const DEMO_SHEET_UPDATES: SheetUpdates = {
+  scoresByEvent: {},
+  placementsByEvent: {
+    1: { '1-1': 2, '1-2': 4, '1-3': 1, '1-4': 5, '1-5': 3, '2-1': 1, '2-2': 3, '2-3': 'DQ', '2-4': 2, '3-1': 4, '3-2': 2, '3-3': 4, '3-4': 1, '3-5': 3 },
+  },
+  manualStatuses: { 1: '종료', 2: '활성' },
+  heatStatuses: { 2: { '1': '종료', '2': '활성' } },
+  cheeringScores: { '1-1': 10, '1-3': 5, '2-2': 10, '3-4': 5 },
+  adjustments: [
+    { className: '2-3', amount: -10, reason: '출발 신호 전 출발 (부정 출발)', eventId: 1, at: '2024-10-04T09:52:00+09:00' },
+  ],
+  missionDraws: { 1: { seed: 20241004, at: '2024-10-04T09:20:00+09:00' } },
+  substitutions: [
+    { eventId: 2, className: '2-2', slot: 'men_vanguard', playerOut: '박수호', playerIn: '최인혁', reason: '손목 부상', at: '2024-10-04T10:05:00+09:00' },
+  ],
+};
+
+const createMemoryDataSource = (snapshot: SheetUpdates, kind: DataSourceKind = 'memory'): EventDataSource => ({
+  kind,
+  label: DATA_SOURCE_LABELS[kind],
+  fetchEventUpdates: async () => snapshot,
+});
+
+const createEventDataSource = (config: DataSourceConfig): EventDataSource => {
+  switch (config.kind) {
+    case 'sheet':
+      return {
+        kind: 'sheet',
+        label: DATA_SOURCE_LABELS.sheet,
+        fetchEventUpdates: knownEventIds => eventService.fetchEventUpdates(config.url, knownEventIds),
+      };
+    case 'relay':
+      return {
+        kind: 'relay',
+        label: DATA_SOURCE_LABELS.relay,
+        fetchEventUpdates: () => relayService.fetchEventUpdates(config.url),
+        pushStreamUrl: `${relayService.normalizeUrl(config.url)}/stream`,
+      };
+    case 'json':
+      return {
+        kind: 'json',
+        label: DATA_SOURCE_LABELS.json,
+        fetchEventUpdates: () => fetchJsonUpdates(config.url),
+      };
+    case 'json-file': {
+      // Parse once up front; a broken file surfaces as a load error on fetch
+      let snapshot: SheetUpdates | null = null;
+      let parseError: Error | null = null;
+      try {
+        snapshot = normalizeSheetUpdates(JSON.parse(config.content));
+      } catch (e) {
+        parseError = e instanceof Error ? e : new Error(String(e));
+      }
+      return {
+        kind: 'json-file',
+        label: `${DATA_SOURCE_LABELS['json-file']} (${config.fileName})`,
+        fetchEventUpdates: async () => {
+          if (parseError || !snapshot) throw new Error(`JSON 파일을 읽을 수 없습니다: ${parseError?.message}`);
+          return snapshot;
+        },
+      };
+    }
+    case 'memory':
+      return createMemoryDataSource(DEMO_SHEET_UPDATES);
+    case 'mock':
+      return {
+        kind: 'mock',
+        label: DATA_SOURCE_LABELS.mock,
+        fetchEventUpdates: () => fetchJsonUpdates(`${relayService.normalizeUrl(config.url)}/updates`),
+      };
+  }
+};
+// --- END Event Data Sources ---
+
+// --- Initial Data (Static part of the events) ---
+const getInitialEvents = (): SportsEventData[] => {
+  const fiveClassMissions = {
+    '1번 주자 (여자)': [
+      '바통 정하기 (오렌지)',
+      '바통 정하기 (같은 반 친구 한 명)',
+      '바통 정하기 (대형 바통)',
+      '바통 정하기 (배구공)',
+      '바통 정하기 (클립)'
+    ],
+    '2번 주자 (남자)': [
+      '한발로 달리기',
+      '경보',
+      '물 안 쏟고 달리기',
+      '뒷주자와 함께 2인 3각',
+      '훌라후프하며 달리기'
+    ],
+    '3번 주자 (여자)': [
+      '숟가락에 탁구공 올리고 달리기',
+      '줄넘기하며 달리기',
+      '인물 데리고 달리기',
+      '뒤로 달리기',
+      '배구공 드리블하며 달리기'
+    ],
+    '4번 주자 (남자) (성공해야 출발가능)': [
+      '밀가루 속 사탕 얼굴로 찾아서 보여주기',
+      '코끼리 코 20바퀴',
+      '풍선 5개 터뜨리기',
+      '슬리퍼 던져서 바구니(훌라후프)에 넣기',
+      '강냉이 5개 던져서 입에 넣기'
+    ]
+  };
+
+  const fourClassMissions = {
+    '1번 주자 (여자)': [
+      '바통 정하기 (오렌지)',
+      '바통 정하기 (같은 반 친구 한 명)',
+      '바통 정하기 (대형 바통)',
+      '바통 정하기 (배구공)'
+    ],
+    '2번 주자 (남자)': [
+      '한발로 달리기',
+      '물 안 쏟고 달리기',
+      '뒷주자와 함께 2인 3각',
+      '훌라후프하며 달리기'
+    ],
+    '3번 주자 (여자)': [
+      '줄넘기하며 달리기',
+      '인물 데리고 달리기',
+      '뒤로 달리기',
+      '배구공 드리블하며 달리기'
+    ],
+    '4번 주자 (남자) (성공해야 출발가능)': [
+      '밀가루 속 사탕 얼굴로 찾아서 보여주기',
+      '풍선 5개 터뜨리기',
+      '슬리퍼 던져서 바구니(훌라후프)에 넣기',
+      '강냉이 5개 던져서 입에 넣기'
+    ]
+  };
+
+  const tugOfWarPlayers = {
+    '1': {
+      '1-1': { women: ['강혜윤', '정지이', '김승연', '김은혜', '김가율', '이시현', '김혜인', '김소연'], men_vanguard: ['이수민', '윤준서', '김주원', '한우석'], men_rearguard: ['홍준서', '전민규', '정지우', '배서준'], reserve: ['조용민', '이하진'] },
+      '1-2': { women: ['배지은', '백단비', '박수민', '양세경', '이사랑', '조아라', '김여준', '전다은'], men_vanguard: ['김준성', '서지후', '이서준', '정태환'], men_rearguard: ['김찬수', '유승호', '이희수', '최시우'], reserve: ['박민찬', '서연정'] },
+      '1-3': { women: ['김사랑', '정지우', '김윤서', '이수정', '유해인', '이자은'], men_vanguard: ['백승준', '윤홍민', '이서원', '정윤재'], men_rearguard: ['김신우', '양건우', '오태준', '박서준'], reserve: [] },
+      '1-4': { women: ['김태연', '방아인', '강혜연', '은서연', '김민서', '이채윤', '임규리', '최지은'], men_vanguard: ['박용원', '김동현', '김지완', '서민재'], men_rearguard: ['오성민', '안태산', '이지웅', '한서준'], reserve: ['김희찬', '이우혁', '김혜림', '권도연'] },
+      '1-5': { women: ['김다은', '김보민', '김지현', '윤현서', '이서윤', '이수지', '이지수', '전영은'], men_vanguard: ['손정무', '이현태', '김주찬', '김도훈'], men_rearguard: ['신연우', '김지호', '유민혁', '김규담'], reserve: ['홍시우', '최서진', '이서윤', '정혜원'] },
+    },
+    '2': {
+      '2-1': { women: ['선우서윤', '이진', '한예지', '류예원', '차수아', '최윤아', '김봄', '남지우', '배현주', '정지우', '이유진', '심지민'], men_vanguard: ['이지안', '황시후', '조민준', '이도윤', '박주형'], men_rearguard: ['주지성', '김지형', '김은우', '이태준', '안성재'], reserve: ['안성재'] },
+      '2-2': { women: ['강도현', '권희윤', '김다영', '김민서', '김수진', '공예주', '성솔지', '이예나', '이하은', '남지수', '백소희', '조가율'], men_vanguard: ['우상혁', '김형준', '이주원', '박수호', '나연호'], men_rearguard: ['양정혁', '임형준', '이유건', '서희', '김현성'], reserve: ['최인혁', '전민성', '이다인', '기민서'] },
+      '2-3': { women: ['임다현', '장지은', '강다혜', '노은지', '전서현', '최지유', '강민지', '유지수', '강은호', '도예슬', '고서연', '이지인'], men_vanguard: ['신우태', '장동우', '박현태', '김서준', '염시혁'], men_rearguard: ['이준', '안은찬', '김성태', '김우현', '이우영'], reserve: ['조동찬', '김민형', '염지효'] },
+      '2-4': { women: ['홍지민', '진서현', '이예서', '지의정', '한지효', '오윤서', '최지효', '김민서'], men_vanguard: ['김여준', '이준수', '임선호', '최민준'], men_rearguard: ['권도윤', '정율', '안성진', '문현준'], reserve: ['신유진', '김기준', '서예담'] },
+    },
+    '3': {
+      '3-1': { women: ['정하율', '김희서', '이채원', '윤유진', '이자빈', '김예나', '서재인', '권도희', '김별', '황자빈'], men_vanguard: ['이서후', '안수찬', '김혜강', '윤홍현', '지성빈', '강현성'], men_rearguard: ['임하윤', '백석훈', '한규선', '박예준', '이재호', '서현준'], reserve: ['박찬유', '이율'] },
+      '3-2': { women: ['김다은', '이하윤', '김하늘', '이화은', '신수빈', '임예주', '양은서', '하윤지', '이서정', '허수빈'], men_vanguard: ['이태환', '이시현', '이서준', '소지혁', '오원재', '이선율'], men_rearguard: ['허유찬', '이희준', '최한결', '최지훈', '김재유', '임성준'], reserve: ['박진성', '박시은'] },
+      '3-3': { women: ['장지연', '김다희', '이루미', '채희원', '배가은', '이다인', '안지현', '김가은', '박정윤', '정혜인'], men_vanguard: ['윤지효', '이성윤', '이지호', '김규민', '서진유', '송주원'], men_rearguard: ['오건우', '임시현', '유경민', '송민혁', '이유찬', '서귀석'], reserve: ['김강민', '김민준', '박슬기'] },
+      '3-4': { women: ['이슬채', '서영진', '손예주', '김서윤', '박지우', '안은서', '문예빈', '정혜원', '이하린', '김가은'], men_vanguard: ['윤중근', '엄재민', '권도훈', '김범준', '김경필', '고도윤'], men_rearguard: ['박진오', '정율원', '박영현', '윤태영', '안주훈', '이준혁'], reserve: ['이연우', '박지후'] },
+      '3-5': { women: ['김나연', '고다윤', '최윤아', '이유진', '김단아', '오채현', '강한나', '권도연', '임서영', '김수인'], men_vanguard: ['최시우', '이윤제', '김예찬', '최지호', '류강민', '김주훈'], men_rearguard: ['장재빈', '장승훈', '박성원', '이강휘', '유영진', '임서준'], reserve: ['곽덕환', '이희승', '박채은', '진다빈'] },
+    }
+  };
+  
+  const missionRunningPlayers = {
+    '1': {
+      '1-1': ['이시연', '김주원', '강혜원', '채종혁'],
+      '1-2': ['양세경', '김준성', '배지은', '최시우'],
+      '1-3': ['김예빈', '박서준', '안유나', '신재훈'],
+      '1-4': ['방아인', '이우혁', '은서연', '이지웅'],
+      '1-5': ['김다은', '김지호', '이지수', '김주찬'],
+    },
+    '2': {
+      '2-1': ['최윤아', '황시후', '선우서윤', '박주형'],
+      '2-2': ['이하은', '우상혁', '김민서', '서희'],
+      '2-3': ['임다현', '장동우', '강민지', '박현태'],
+      '2-4': ['지의정', '권도윤', '한지효', '문현준'],
+    },
+    '3': {
+      '3-1': ['이자빈', '윤홍현', '윤유진', '이서후'],
+      '3-2': ['허수빈', '소지혁', '김다은', '임성준'],
+      '3-3': ['배가은', '서진유', '김다희', '임시현'],
+      '3-4': ['안은서', '김범준', '김서윤', '김경필'],
+      '3-5': ['고다윤', '김예찬', '이유진', '김주훈'],
+    }
+  };
+
+  const relayRacePlayers = {
+    '1': {
+      '1-1': ['이하진', '한우석', '김소연', '윤준서'],
+      '1-2': ['전다은', '이서준', '이사랑', '박민찬'],
+      '1-3': ['정유리나', '박유능', '채희은', '우승현'],
+      '1-4': ['강혜원', '서민재', '강태연', '김동현'],
+      '1-5': ['김보민', '손정무', '윤현서', '유민혁'],
+    },
+    '2': {
+      '2-1': ['이진', '이지안', '김봄', '송물결'],
+      '2-2': ['권희윤', '최인혁', '이예소', '이유진'],
+      '2-3': ['전서현', '이준', '강다혜', '염시혁'],
+      '2-4': ['홍지민', '이준수', '오윤서', '임선호'],
+    },
+    '3': {
+      '3-1': ['이채원', '김혜강', '김예나', '유창민'],
+      '3-2': ['하윤지', '이시현', '신수빈', '최한결'],
+      '3-3': ['장지연', '이지호', '이루미', '오건우'],
+      '3-4': ['이하린', '윤중근', '손예주', '고도윤'],
+      '3-5': ['김나연', '최지호', '최윤아', '류강민'],
+    }
+  };
+
+  return [
+    { id: 0, title: '준비운동 및 개회식', startTime: '08:50', endTime: '09:15', location: '운동장' },
+    {
+      id: 1,
+      title: '미션 달리기',
+      startTime: '09:15',
+      endTime: '10:10',
+      location: '운동장',
+      scores: { '1-1': 0, '1-2': 0, '1-3': 0, '1-4': 0, '1-5': 0, '2-1': 0, '2-2': 0, '2-3': 0, '2-4': 0, '3-1': 0, '3-2': 0, '3-3': 0, '3-4': 0, '3-5': 0 },
+      rules: `1. 주자는 결승점을 향해 달리면서 주어진 미션을 하나씩 수행해야 합니다.
+
+  2. 미션을 성공적으로 완료하고 다음 주자에게 이어 달리기를 하면 됩니다.
+
+  3. 모든 주자가 미션을 마치고 가장 먼저 결승선을 통과한 팀이 승리합니다.`,
+      missions: {
+        '1': fiveClassMissions,
+        '2': fourClassMissions,
         '3': fiveClassMissions
       },
       players: missionRunningPlayers,
@@ -288,248 +1314,2281 @@ const getInitialEvents = (): SportsEventData[] => {
       startTime: '10:10',
       endTime: '11:00',
       location: '운동장',
-      scores: { '1-1': 0, '1-2': 0, '1-3': 0, '1-4': 0, '1-5': 0, '2-1': 0, '2-2': 0, '2-3': 0, '2-4': 0, '3-1': 0, '3-2': 0, '3-3': 0, '3-4': 0, '3-5': 0 },
-      rules: `1. 심판의 시작 신호가 울리면 여학생들이 먼저 줄을 당기기 시작한다.
+      scores: { '1-1': 0, '1-2': 0, '1-3': 0, '1-4': 0, '1-5': 0, '2-1': 0, '2-2': 0, '2-3': 0, '2-4': 0, '3-1': 0, '3-2': 0, '3-3': 0, '3-4': 0, '3-5': 0 },
+      rules: `1. 심판의 시작 신호가 울리면 여학생들이 먼저 줄을 당기기 시작한다.
+
+  2. 시작 5초 뒤, 심판의 휘슬에 맞춰 남학생 선발대가 출발선에서 줄에 합류한다.
+
+  3. 다시 5초 뒤, 심판의 휘슬과 함께 남학생 후발대도 줄에 합류한다.
+
+  4. 두 팀 모두 전원이 합류한 뒤, 힘과 팀워크로 줄을 끝까지 당긴다.
+
+  5. 중앙 기준선을 기준으로 상대 팀을 자기 쪽으로 끌어오면 승리!
+
+  6. 경기에 참여하는 인원은 양 팀 모두 같아야 하며, 인원이 적은 팀 기준으로 맞춘다.`,
+      gameFormat: `• 모든 예선전은 단판으로 진행합니다.\n• 결승전은 3판 2선승제로 진행하며, 1:1 동점 시 전통 줄다리기로 승부를 가립니다.\n\n[진행 순서]\n1학년 → 2학년 → 3학년 순으로 예선 및 결승이 진행됩니다.`,
+      bracket: {
+        seeding: 'manual',
+        order: {
+          '1': ['1-3', '1-2', '1-4', '1-1', '1-5'],
+          '2': ['2-1', '2-4', '2-2', '2-3'],
+          '3': ['3-4', '3-5', '3-3', '3-2', '3-1'],
+        },
+        finalBestOf: 3,
+      },
+      heats: [
+        { id: '1', grade: '1', startTime: '10:10', endTime: '10:27' },
+        { id: '2', grade: '2', startTime: '10:27', endTime: '10:42' },
+        { id: '3', grade: '3', startTime: '10:42', endTime: '11:00' },
+      ],
+      players: tugOfWarPlayers,
+    },
+    {
+      id: 3,
+      title: '교사 vs 교사 이벤트 계주',
+      startTime: '11:00',
+      endTime: '11:20',
+      location: '운동장',
+      rules: `🎉 선생님들의 자존심을 건 한판 승부! 🎉\n이과팀과 문과팀, 과연 어느 팀이 운동장을 지배할까요? 학생 여러분의 뜨거운 응원이 필요합니다! 🔥`,
+      teacherTeams: {
+        '문과 팀': ['👑 신승호', '공진현', '노예은', '한지수', '김지윤'],
+        '이과 팀': ['👑 신진섭', '윤해움', '임재철', '김재홍', '김민지']
+      }
+    },
+    {
+      id: 4,
+      title: '댄스팀 공연',
+      startTime: '11:20',
+      endTime: '11:35',
+      location: '운동장',
+      danceTeams: {
+        '케이팝 중원 헌터스': {
+            members: ['류강민', '윤중근', '고도윤'],
+            songs: ['GOLDEN']
+        },
+        '금슬연화': {
+            members: ['이유진(3학년)', '홍지민', '최윤아', '최지유', '강다혜', '한지효'],
+            songs: ['에스파 - Dirty work', '효린 - 바다보러갈래']
+        },
+      }
+    },
+    {
+      id: 5,
+      title: '계주',
+      startTime: '11:35',
+      endTime: '12:25',
+      location: '운동장',
+      scores: { '1-1': 0, '1-2': 0, '1-3': 0, '1-4': 0, '1-5': 0, '2-1': 0, '2-2': 0, '2-3': 0, '2-4': 0, '3-1': 0, '3-2': 0, '3-3': 0, '3-4': 0, '3-5': 0 },
+      rules: `1. 각 학년 모두 예선 없이 바로 본선 경기로 진행됩니다.
+
+  2.주자는 바통을 이어받아 1바퀴씩 달리며 팀 경기를 이어갑니다.
+
+  3.모든 주자가 달린 뒤 결승점에 가장 먼저 들어오는 순서대로 순위가 결정됩니다.`,
+      heats: [
+        { id: '1', grade: '1', startTime: '11:35', endTime: '11:52' },
+        { id: '2', grade: '2', startTime: '11:52', endTime: '12:08' },
+        { id: '3', grade: '3', startTime: '12:08', endTime: '12:25' },
+      ],
+      players: relayRacePlayers,
+    },
+    { id: 6, title: '폐회식', startTime: '12:25', endTime: '12:40', location: '운동장' },
+    {
+      id: 7,
+      title: '점심시간 및 뒷정리',
+      startTime: '12:40',
+      endTime: '13:20',
+      location: '운동장',
+      lunchMenu: `🍚 치킨마요덮밥\n🍜 가쓰오우동국\n🥘 치즈옹심이떡볶이\n🥮 단무지무침\n🥬 배추김치\n🍍 파인애플`
+    },
+  ];
+};
+
+// --- Event Catalog (optional sheet tab or JSON document overriding getInitialEvents) ---
+// Catalog entries are matched to the built-in events by id. Every field that is missing
+// or fails validation falls back to the built-in value; new ids add new events.
+interface CatalogIssue {
+  eventId: string;
+  field: string;
+  reason: string;
+}
+
+// Issues that are not about a single event use these ids in place of an event id
+const CATALOG_ISSUE_LABELS: { [eventId: string]: string } = {
+  standings: '순위 규칙',
+  date: '대회 날짜',
+};
+
+interface CatalogResult {
+  events: SportsEventData[];
+  issues: CatalogIssue[];
+  standings: StandingsConfig;
+}
+
+type CatalogEntry = { [field: string]: unknown };
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+const CATALOG_STRING_FIELDS = ['title', 'location', 'rules', 'gameFormat', 'lunchMenu'] as const;
+// Fields that hold nested data; in a CSV tab these cells contain JSON
+const CATALOG_JSON_FIELDS = ['scores', 'pointTable', 'bracket', 'heats', 'lineup', 'missions', 'players', 'danceTeams', 'teacherTeams'] as const;
+
+const isPlainObject = (value: unknown): value is { [key: string]: unknown } =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isRecordOf = <T,>(value: unknown, check: (item: unknown) => item is T): value is { [key: string]: T } =>
+  isPlainObject(value) && Object.keys(value).every(key => check(value[key]));
+
+const isTugOfWarPlayerClass = (value: unknown): value is TugOfWarPlayerClass =>
+  isPlainObject(value) && (['women', 'men_vanguard', 'men_rearguard', 'reserve'] as const).every(group => isStringArray(value[group]));
+
+const isPlayerData = (value: unknown): value is PlayerData => isStringArray(value) || isTugOfWarPlayerClass(value);
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+// Returns "HH:MM", or null when the value is not a valid clock time
+const normalizeTime = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = TIME_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+};
+
+const CATALOG_FIELD_VALIDATORS: { [field in typeof CATALOG_JSON_FIELDS[number]]: (value: unknown) => boolean } = {
+  scores: value => isRecordOf(value, isInteger),
+  pointTable: value => isPlainObject(value) && Array.isArray(value.placements) && value.placements.every(isInteger)
+    && isInteger(value.participation) && isInteger(value.disqualified),
+  bracket: value => isPlainObject(value) && ['manual', 'random', 'standings'].includes(String(value.seeding))
+    && (value.order === undefined || isRecordOf(value.order, isStringArray))
+    && (value.seed === undefined || isInteger(value.seed))
+    && (value.autoScore === undefined || typeof value.autoScore === 'boolean')
+    && (value.finalBestOf === undefined || (isInteger(value.finalBestOf) && value.finalBestOf >= 1 && value.finalBestOf % 2 === 1))
+    && (value.format === undefined || ['single', 'double', 'roundRobin'].includes(String(value.format)))
+    && (value.roundRobinPoints === undefined || (isPlainObject(value.roundRobinPoints)
+      && isInteger(value.roundRobinPoints.win) && isInteger(value.roundRobinPoints.draw) && isInteger(value.roundRobinPoints.loss))),
+  // Heat times must already be "HH:MM"; ids must be unique within the event
+  heats: value => Array.isArray(value) && value.every(heat => isPlainObject(heat)
+    && typeof heat.id === 'string' && normalizeHeatId(heat.id) === heat.id && heat.id !== ''
+    && typeof heat.grade === 'string' && heat.grade.trim() !== ''
+    && normalizeTime(heat.startTime) === heat.startTime && normalizeTime(heat.endTime) === heat.endTime
+    && String(heat.startTime) < String(heat.endTime)
+    && (heat.title === undefined || typeof heat.title === 'string'))
+    && new Set(value.map(heat => heat.id)).size === value.length,
+  lineup: isStringArray,
+  missions: value => isRecordOf(value, (grade): grade is { [runner: string]: string[] } => isRecordOf(grade, isStringArray)),
+  players: value => isRecordOf(value, (grade): grade is { [className: string]: PlayerData } => isRecordOf(grade, isPlayerData)),
+  danceTeams: value => isRecordOf(value, (team): team is { members: string[]; songs: string[] } =>
+    isPlainObject(team) && isStringArray(team.members) && isStringArray(team.songs)),
+  teacherTeams: value => isRecordOf(value, isStringArray),
+};
+
+// Reads a catalog tab: one row per event, one column per SportsEventData field
+const parseCatalogCsv = (csvText: string): CatalogEntry[] => {
+  const [headerRow = [], ...rows] = parseCsv(csvText);
+  const headers = headerRow.map(header => header.trim());
+  return rows
+    .filter(cells => cells.some(cell => cell.trim()))
+    .map(cells => {
+      const entry: CatalogEntry = {};
+      headers.forEach((header, index) => {
+        const cell = (cells[index] || '').trim();
+        if (!header || !cell) return; // empty cell = use the built-in value
+        if (header === 'id') {
+          entry.id = INTEGER_PATTERN.test(cell) ? parseInt(cell, 10) : cell;
+        } else if ((CATALOG_JSON_FIELDS as readonly string[]).includes(header)) {
+          try {
+            entry[header] = JSON.parse(cell);
+          } catch {
+            entry[header] = cell; // rejected by validation below, with a reason
+          }
+        } else {
+          entry[header] = cell;
+        }
+      });
+      return entry;
+    });
+};
+
+// A JSON object document may also carry a `standings` object with the ranking rules and a
+// `date` that applies to every event without its own
+const parseCatalogText = (text: string): { entries: CatalogEntry[]; standings?: unknown; date?: unknown } => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const json = JSON.parse(trimmed);
+    const entries = Array.isArray(json) ? json : json.events;
+    if (!Array.isArray(entries)) {
+      throw new Error('경기 프로그램 JSON은 배열이거나 events 배열을 가진 객체여야 합니다.');
+    }
+    if (Array.isArray(json)) return { entries: entries.filter(isPlainObject) };
+    return { entries: entries.filter(isPlainObject), standings: json.standings, date: json.date };
+  }
+  if (trimmed.toLowerCase().startsWith('<!doctype html') || trimmed.startsWith('<html')) {
+    throw new Error("경기 프로그램 주소가 CSV 또는 JSON이 아닙니다. '웹에 게시'의 CSV 링크인지 확인해주세요.");
+  }
+  return { entries: parseCatalogCsv(trimmed) };
+};
+
+const mergeCatalog = (defaults: SportsEventData[], entries: CatalogEntry[]): CatalogResult => {
+  const issues: CatalogIssue[] = [];
+  const eventsById = new Map<number, SportsEventData>(defaults.map(event => [event.id, { ...event }]));
+
+  entries.forEach((entry, index) => {
+    const label = entry.id !== undefined ? String(entry.id) : `${index + 1}번째 항목`;
+    const report = (field: string, reason: string) => issues.push({ eventId: label, field, reason });
+
+    if (!isInteger(entry.id)) {
+      report('id', `경기 번호 "${String(entry.id ?? '')}"이(가) 정수가 아니어서 항목을 건너뜁니다.`);
+      return;
+    }
+
+    const base = eventsById.get(entry.id);
+    const merged: Partial<SportsEventData> = base ? { ...base } : { id: entry.id };
+
+    CATALOG_STRING_FIELDS.forEach(field => {
+      const value = entry[field];
+      if (value === undefined) return;
+      if (typeof value === 'string' && value.trim()) {
+        merged[field] = value;
+      } else {
+        report(field, '문자열이 아니어서 기본값을 사용합니다.');
+      }
+    });
+
+    if (entry.date !== undefined) {
+      const date = normalizeDate(entry.date);
+      if (date) {
+        merged.date = date;
+      } else {
+        report('date', `날짜 "${String(entry.date)}"이(가) YYYY-MM-DD 형식이 아니어서 기본값을 사용합니다.`);
+      }
+    }
+
+    (['startTime', 'endTime'] as const).forEach(field => {
+      if (entry[field] === undefined) return;
+      const time = normalizeTime(entry[field]);
+      if (time) {
+        merged[field] = time;
+      } else {
+        report(field, `시간 "${String(entry[field])}"이(가) HH:MM 형식이 아니어서 기본값을 사용합니다.`);
+      }
+    });
+
+    CATALOG_JSON_FIELDS.forEach(field => {
+      const value = entry[field];
+      if (value === undefined) return;
+      if (CATALOG_FIELD_VALIDATORS[field](value)) {
+        (merged as { [key: string]: unknown })[field] = value;
+      } else {
+        report(field, '형식이 올바르지 않아 기본값을 사용합니다.');
+      }
+    });
+
+    if (!merged.title || !merged.startTime || !merged.endTime) {
+      report('id', '새 경기에는 title, startTime, endTime이 모두 필요해서 항목을 건너뜁니다.');
+      return;
+    }
+    if (merged.startTime >= merged.endTime) {
+      report('endTime', `종료 시간(${merged.endTime})이 시작 시간(${merged.startTime})보다 빨라 기본 시간을 사용합니다.`);
+      if (!base) return;
+      merged.startTime = base.startTime;
+      merged.endTime = base.endTime;
+    }
+
+    eventsById.set(entry.id, { location: '', ...merged } as SportsEventData);
+  });
+
+  const events = Array.from(eventsById.values())
+    .sort((a, b) => (a.date || '').localeCompare(b.date || '') || a.startTime.localeCompare(b.startTime) || a.id - b.id);
+  return { events, issues, standings: DEFAULT_STANDINGS_CONFIG };
+};
+
+const catalogService = {
+  async fetchCatalog(catalogUrl: string): Promise<CatalogResult> {
+    console.log(`[DATA] Fetching event catalog: ${catalogUrl}`);
+    const separator = catalogUrl.includes('?') ? '&' : '?';
+    const response = await fetch(`${catalogUrl}${separator}t=${new Date().getTime()}`);
+    if (!response.ok) {
+      throw new Error(`경기 프로그램을 불러오지 못했습니다: ${response.status} ${response.statusText}`);
+    }
+    const { entries, standings, date } = parseCatalogText(await response.text());
+    const result = mergeCatalog(getInitialEvents(), entries);
+    if (date !== undefined) {
+      const programDate = normalizeDate(date);
+      if (programDate) {
+        result.events = result.events.map(event => (event.date ? event : { ...event, date: programDate }));
+      } else {
+        result.issues.push({ eventId: 'date', field: 'date', reason: `날짜 "${String(date)}"이(가) YYYY-MM-DD 형식이 아니어서 무시합니다.` });
+      }
+    }
+    if (standings !== undefined) {
+      result.standings = normalizeStandingsConfig(standings, (field, reason) => result.issues.push({ eventId: 'standings', field, reason }));
+    }
+    if (result.issues.length > 0) {
+      console.warn(`[DATA] ${result.issues.length} catalog field(s) fell back to defaults:`, result.issues);
+    }
+    return result;
+  },
+};
+// --- END Event Catalog ---
+
+// --- Roster Import (CSV: grade, class, event, slot/category, name) ---
+type RosterEventKind = 'mission' | 'tugOfWar' | 'relay';
+type RosterColumn = 'grade' | 'className' | 'event' | 'slot' | 'name';
+
+// Imported rosters by event id; each imported class replaces that class's built-in roster
+type RosterImport = { [eventId: number]: { [grade: string]: { [className: string]: PlayerData } } };
+
+interface SavedRosterImport {
+  fileName: string;
+  importedAt: string; // ISO timestamp
+  rosters: RosterImport;
+}
+
+interface RosterImportPreview {
+  rosters: RosterImport;
+  playerCount: number;
+  issues: SkippedSheetRow[];
+}
+
+const ROSTER_COLUMNS: CsvColumnSpec<RosterColumn> = {
+  grade: { aliases: ['grade', '학년'], fallbackIndex: 0, required: '학년' },
+  className: { aliases: ['class', 'classname', '반', '학반', '학급'], fallbackIndex: 1, required: '반' },
+  event: { aliases: ['event', '경기', '종목', '경기명'], fallbackIndex: 2, required: '경기' },
+  slot: { aliases: ['slot', 'category', 'order', '순번', '구분', '주자', '포지션'], fallbackIndex: 3, required: '구분' },
+  name: { aliases: ['name', '이름', '성명', '선수'], fallbackIndex: 4, required: '이름' },
+};
+
+const ROSTER_EVENT_TITLES: { [kind in RosterEventKind]: string } = {
+  mission: '미션 달리기',
+  tugOfWar: '줄다리기',
+  relay: '계주',
+};
+
+// Compared after removing spaces and parentheses, lower-cased
+const ROSTER_EVENT_ALIASES: { [kind in RosterEventKind]: string[] } = {
+  mission: ['미션달리기', '미션', 'mission', 'missionrelay'],
+  tugOfWar: ['줄다리기', 'tugofwar', 'tug'],
+  relay: ['계주', 'relay'],
+};
+
+const TUG_OF_WAR_CATEGORY_ALIASES: { [category in keyof TugOfWarPlayerClass]: string[] } = {
+  women: ['여자', '여', 'women', 'woman'],
+  men_vanguard: ['남자선발', '선발', 'men_vanguard', 'vanguard'],
+  men_rearguard: ['남자후발', '후발', 'men_rearguard', 'rearguard'],
+  reserve: ['예비', '후보', 'reserve'],
+};
+
+const TUG_OF_WAR_CATEGORY_LABELS: { [category in keyof TugOfWarPlayerClass]: string } = {
+  women: '여자',
+  men_vanguard: '남자 (선발)',
+  men_rearguard: '남자 (후발)',
+  reserve: '예비',
+};
+
+const normalizeRosterKey = (value: string) => value.normalize().toLowerCase().replace(/[\s()]/g, '');
+
+const findAlias = <K extends string,>(aliases: { [key in K]: string[] }, value: string): K | null => {
+  const key = normalizeRosterKey(value);
+  return (Object.keys(aliases) as K[]).find(candidate => aliases[candidate].includes(key)) || null;
+};
+
+const parseRosterCsv = (csvText: string, events: SportsEventData[]): RosterImportPreview => {
+  const [headerRow = [], ...rows] = parseCsv(csvText);
+  const { columns, hasHeader, missing } = resolveCsvColumns(headerRow, ROSTER_COLUMNS);
+  const issues: SkippedSheetRow[] = [];
+  if (missing.length > 0) {
+    issues.push({ rowNumber: 1, reason: formatMissingColumns(missing), cells: headerRow });
+    return { rosters: {}, playerCount: 0, issues };
+  }
+  const runnerSlots: { [eventId: number]: { [grade: string]: { [className: string]: { [slot: number]: { name: string; rowNumber: number } } } } } = {};
+  const tugOfWar: { [grade: string]: { [className: string]: TugOfWarPlayerClass } } = {};
+  let playerCount = 0;
+
+  const eventIdByKind = (Object.keys(ROSTER_EVENT_TITLES) as RosterEventKind[]).reduce((acc, kind) => {
+    const event = events.find(e => e.title === ROSTER_EVENT_TITLES[kind]);
+    if (event) acc[kind] = event.id;
+    return acc;
+  }, {} as { [kind in RosterEventKind]?: number });
+
+  (hasHeader ? rows : [headerRow, ...rows]).forEach((rawCells, index) => {
+    const rowNumber = index + (hasHeader ? 2 : 1);
+    const cells = rawCells.map(cell => cell.trim());
+    const skip = (reason: string) => issues.push({ rowNumber, reason, cells });
+    if (cells.every(cell => !cell)) return;
+
+    const grade = (cells[columns.grade] || '').replace(/학년$/, '');
+    const classCell = (cells[columns.className] || '').replace(/반$/, '');
+    const eventCell = cells[columns.event] || '';
+    const slotCell = cells[columns.slot] || '';
+    const name = cells[columns.name] || '';
+
+    if (!/^\d+$/.test(grade)) return skip(`학년 "${grade}"이(가) 숫자가 아닙니다.`);
+    // Accept either "3" or "1-3" for the class column
+    const classNum = classCell.includes('-') ? classCell.split('-')[1] : classCell;
+    if (!/^\d+$/.test(classNum) || (classCell.includes('-') && classCell.split('-')[0] !== grade)) {
+      return skip(`반 "${classCell}"이(가) ${grade}학년의 반 번호가 아닙니다.`);
+    }
+    const className = `${grade}-${classNum}`;
+    if (!name) return skip('이름이 비어 있습니다.');
+
+    const kind = findAlias(ROSTER_EVENT_ALIASES, eventCell);
+    if (!kind) return skip(`알 수 없는 경기 "${eventCell}"입니다. (미션 달리기/줄다리기/계주)`);
+    const eventId = eventIdByKind[kind];
+    if (eventId === undefined) return skip(`현재 일정에 "${ROSTER_EVENT_TITLES[kind]}" 경기가 없습니다.`);
+
+    if (kind === 'tugOfWar') {
+      const category = findAlias(TUG_OF_WAR_CATEGORY_ALIASES, slotCell);
+      if (!category) return skip(`줄다리기 구분 "${slotCell}"을(를) 알 수 없습니다. (여자/남자 선발/남자 후발/예비)`);
+      if (!tugOfWar[grade]) tugOfWar[grade] = {};
+      if (!tugOfWar[grade][className]) tugOfWar[grade][className] = { women: [], men_vanguard: [], men_rearguard: [], reserve: [] };
+      tugOfWar[grade][className][category].push(name);
+      playerCount++;
+      return;
+    }
+
+    const slotMatch = /^(\d+)/.exec(slotCell);
+    const slot = slotMatch ? parseInt(slotMatch[1], 10) : NaN;
+    if (!(slot >= 1)) return skip(`주자 순번 "${slotCell}"이(가) 1 이상의 숫자가 아닙니다.`);
+    if (!runnerSlots[eventId]) runnerSlots[eventId] = {};
+    if (!runnerSlots[eventId][grade]) runnerSlots[eventId][grade] = {};
+    if (!runnerSlots[eventId][grade][className]) runnerSlots[eventId][grade][className] = {};
+    const slots = runnerSlots[eventId][grade][className];
+    if (slots[slot]) {
+      return skip(`${className} ${slot}번 주자가 이미 ${slots[slot].name}(${slots[slot].rowNumber}행)으로 지정되어 있습니다.`);
+    }
+    slots[slot] = { name, rowNumber };
+    playerCount++;
+  });
+
+  const rosters: RosterImport = {};
+  Object.keys(runnerSlots).forEach(key => {
+    const eventId = Number(key);
+    Object.keys(runnerSlots[eventId]).forEach(grade => {
+      Object.keys(runnerSlots[eventId][grade]).forEach(className => {
+        const slots = runnerSlots[eventId][grade][className];
+        const maxSlot = Math.max(...Object.keys(slots).map(Number));
+        const missing = Array.from({ length: maxSlot }, (_, i) => i + 1).filter(slot => !slots[slot]);
+        if (missing.length > 0) {
+          const lastRow = slots[maxSlot];
+          issues.push({ rowNumber: lastRow.rowNumber, reason: `${className} ${missing.join(', ')}번 주자가 비어 있어 이 반 명단을 가져오지 않습니다.`, cells: [] });
+          return;
+        }
+        if (!rosters[eventId]) rosters[eventId] = {};
+        if (!rosters[eventId][grade]) rosters[eventId][grade] = {};
+        rosters[eventId][grade][className] = Array.from({ length: maxSlot }, (_, i) => slots[i + 1].name);
+      });
+    });
+  });
+  if (eventIdByKind.tugOfWar !== undefined && Object.keys(tugOfWar).length > 0) {
+    rosters[eventIdByKind.tugOfWar] = tugOfWar;
+  }
+
+  issues.sort((a, b) => a.rowNumber - b.rowNumber);
+  return { rosters, playerCount, issues };
+};
+
+// Builds an import-ready CSV from the current rosters, to use as a template
+const rostersToCsv = (events: SportsEventData[]): string => {
+  const rows: string[][] = [['학년', '반', '경기', '구분', '이름']];
+  events.forEach(event => {
+    if (!event.players) return;
+    Object.keys(event.players).forEach(grade => {
+      const playersForGrade = event.players![grade];
+      Object.keys(playersForGrade).sort((a, b) => a.localeCompare(b)).forEach(className => {
+        const data = playersForGrade[className];
+        const classNum = className.split('-')[1];
+        if (Array.isArray(data)) {
+          data.forEach((name, index) => rows.push([grade, classNum, event.title, `${index + 1}번 주자`, name]));
+        } else {
+          (Object.keys(TUG_OF_WAR_CATEGORY_LABELS) as (keyof TugOfWarPlayerClass)[]).forEach(category => {
+            data[category].forEach(name => rows.push([grade, classNum, event.title, TUG_OF_WAR_CATEGORY_LABELS[category], name]));
+          });
+        }
+      });
+    });
+  });
+  return toCsv(rows);
+};
+
+const applyRosterImport = (
+  players: SportsEventData['players'],
+  imported: RosterImport[number] | undefined,
+): SportsEventData['players'] => {
+  if (!imported) return players;
+  const merged = { ...players };
+  Object.keys(imported).forEach(grade => {
+    merged[grade] = { ...(merged[grade] || {}), ...imported[grade] };
+  });
+  return merged;
+};
+
+// A later file only replaces the classes it lists, so earlier imports for other classes survive
+const mergeRosterImports = (base: RosterImport, next: RosterImport): RosterImport => {
+  const merged: RosterImport = { ...base };
+  Object.keys(next).map(Number).forEach(eventId => {
+    merged[eventId] = applyRosterImport(merged[eventId] || {}, next[eventId]);
+  });
+  return merged;
+};
+
+const ROSTER_IMPORT_STORAGE_KEY = 'SPORTS_DAY_ROSTER_IMPORT';
+
+const loadSavedRosterImport = (): SavedRosterImport | null => {
+  const saved = localStorage.getItem(ROSTER_IMPORT_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved) as SavedRosterImport;
+  } catch {
+    localStorage.removeItem(ROSTER_IMPORT_STORAGE_KEY);
+    return null;
+  }
+};
+// --- END Roster Import ---
+
+// --- Substitutions ---
+// A substitution swaps one player for another in one slot of a class's roster: a runner
+// position or a tug-of-war group. They apply in the order recorded, on top of the imported
+// rosters, so every roster view shows who actually plays; the event keeps its original
+// lineup alongside.
+const SUBSTITUTION_TUG_OF_WAR_CATEGORIES: (keyof TugOfWarPlayerClass)[] = ['women', 'men_vanguard', 'men_rearguard'];
+
+// Reads "2", "2번 주자" as runner slot "2" and "여자", "남자 선발" … as a tug-of-war group
+const normalizeSubstitutionSlot = (value: string): string | null => {
+  const category = findAlias(TUG_OF_WAR_CATEGORY_ALIASES, value);
+  if (category) return SUBSTITUTION_TUG_OF_WAR_CATEGORIES.includes(category) ? category : null;
+  const match = /^(\d+)/.exec(value.trim());
+  return match && parseInt(match[1], 10) >= 1 ? String(parseInt(match[1], 10)) : null;
+};
+
+const formatSubstitutionSlot = (slot: string): string =>
+  slot in TUG_OF_WAR_CATEGORY_LABELS ? TUG_OF_WAR_CATEGORY_LABELS[slot as keyof TugOfWarPlayerClass] : `${slot}번 주자`;
+
+// A substitution whose player out is not in that slot (any more) is skipped, not guessed at
+const applySubstitutions = (
+  players: SportsEventData['players'],
+  substitutions: Substitution[],
+): { players: SportsEventData['players']; skipped: Substitution[] } => {
+  if (!players) return { players, skipped: substitutions };
+  const result = { ...players };
+  const skipped: Substitution[] = [];
+  substitutions.forEach(substitution => {
+    const { className, slot, playerOut, playerIn } = substitution;
+    const grade = Object.keys(result).find(key => result[key][className]);
+    const data = grade ? result[grade][className] : undefined;
+    let next: PlayerData | null = null;
+    if (Array.isArray(data)) {
+      const index = parseInt(slot, 10) - 1;
+      if (data[index] === playerOut) {
+        next = [...data];
+        next[index] = playerIn;
+      }
+    } else if (data && SUBSTITUTION_TUG_OF_WAR_CATEGORIES.includes(slot as keyof TugOfWarPlayerClass)) {
+      const category = slot as keyof TugOfWarPlayerClass;
+      // A reserve who comes in leaves the bench
+      if (data[category].includes(playerOut)) {
+        next = {
+          ...data,
+          reserve: data.reserve.filter(name => name !== playerIn),
+          [category]: data[category].map(name => (name === playerOut ? playerIn : name)),
+        };
+      }
+    }
+    if (!grade || !next) {
+      skipped.push(substitution);
+      return;
+    }
+    result[grade] = { ...result[grade], [className]: next };
+  });
+  return { players: result, skipped };
+};
+
+// The latest substitution that put `name` into (or, with 'playerOut', took them out of) a slot
+const findSubstitution = (
+  substitutions: Substitution[] | undefined,
+  className: string,
+  slot: string,
+  name: string,
+  side: 'playerIn' | 'playerOut' = 'playerIn',
+): Substitution | undefined => [...(substitutions || [])].reverse()
+  .find(substitution => substitution.className === className && substitution.slot === slot && substitution[side] === name);
+// --- END Substitutions ---
+
+// --- Clock ---
+// Every reading of "now" goes through getNow() so the device's clock offset applies to
+// statuses, the projected schedule and the times a host records alike. SportsDayApp keeps
+// the current time in state and refreshes it on each minute boundary.
+const CLOCK_OFFSET_STORAGE_KEY = 'SPORTS_DAY_CLOCK_OFFSET_MINUTES';
+const MAX_CLOCK_OFFSET_MINUTES = 12 * 60;
+
+const loadClockOffsetMinutes = (): number => {
+  const saved = Number(localStorage.getItem(CLOCK_OFFSET_STORAGE_KEY));
+  return Number.isInteger(saved) && Math.abs(saved) <= MAX_CLOCK_OFFSET_MINUTES ? saved : 0;
+};
+
+const getNow = (offsetMinutes = 0): Date => new Date(Date.now() + offsetMinutes * 60 * 1000);
+
+// Milliseconds until the next minute starts, plus a little so the tick lands inside the new minute
+const msUntilNextMinute = (now: Date): number => 60 * 1000 - (now.getSeconds() * 1000 + now.getMilliseconds()) + 50;
+
+const getCurrentTime = (now: Date = new Date()) => {
+  const hours = String(now.getHours()).padStart(2, '0');
+  const minutes = String(now.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+// Local calendar date as "YYYY-MM-DD", the format event dates use
+const getCurrentDate = (now: Date = new Date()) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const normalizeDate = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value.trim())) return null;
+  const date = new Date(`${value.trim()}T00:00:00`);
+  return Number.isNaN(date.getTime()) || getCurrentDate(date) !== value.trim() ? null : value.trim();
+};
+
+// Whole days from one "YYYY-MM-DD" date to another
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+// "10월 4일 (금)"
+const formatEventDate = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('ko-KR', { month: 'long', day: 'numeric', weekday: 'short' });
+// --- END Clock ---
+
+// --- Helper Functions ---
+const getEventStatus = (
+  startTime: string,
+  endTime: string,
+  currentTime: string,
+  manualStatus?: ManualStatus,
+  actualTimes?: ActualTimes,
+  eventDate?: string,
+  currentDate?: string,
+): Status => {
+  // Manual override from Google Sheet takes precedence
+  if (manualStatus === '활성') return '진행중';
+  if (manualStatus === '종료') return '종료';
+  if (manualStatus === '예정') return '예정';
+
+  // Then what the host recorded on the day
+  if (actualTimes?.end) return '종료';
+  if (actualTimes?.start) return '진행중';
+
+  // On any other day than its own, an event is simply ahead or over
+  if (eventDate && currentDate && eventDate !== currentDate) return currentDate < eventDate ? '예정' : '종료';
+
+  // Fallback to time-based logic
+  if (currentTime < startTime) return '예정';
+  if (currentTime >= startTime && currentTime < endTime) return '진행중';
+  return '종료';
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatMinutes = (totalMinutes: number): string =>
+  `${String(Math.floor(totalMinutes / 60)).padStart(2, '0')}:${String(totalMinutes % 60).padStart(2, '0')}`;
+
+// Projects the day's timeline from the recorded actual times. An event starts at its printed
+// time or when the event before it ends, whichever is later, and keeps its planned length.
+// Early finishes never pull later events forward, and only gaps between printed times absorb delays.
+const projectSchedule = (
+  events: SportsEventData[],
+  actualTimes: { [eventId: number]: ActualTimes } = {},
+  currentTime: string,
+  currentDate?: string,
+): { [eventId: number]: EventSchedule } => {
+  const schedules: { [eventId: number]: EventSchedule } = {};
+  let previousEnd = 0;
+  let previousDate: string | undefined;
+  [...events].sort((a, b) => (a.date || '').localeCompare(b.date || '') || a.startTime.localeCompare(b.startTime)).forEach(event => {
+    // Delays never carry over into another day
+    if (event.date !== previousDate) previousEnd = 0;
+    previousDate = event.date;
+
+    const actual = actualTimes[event.id] || {};
+    const plannedStart = toMinutes(event.startTime);
+    const start = actual.start ? toMinutes(actual.start) : Math.max(plannedStart, previousEnd);
+    let end = actual.end ? toMinutes(actual.end) : start + toMinutes(event.endTime) - plannedStart;
+    // An event that is still running on its day ends no earlier than the next minute
+    const isEventDay = !event.date || !currentDate || event.date === currentDate;
+    if (actual.start && !actual.end && isEventDay) end = Math.max(end, toMinutes(currentTime) + 1);
+    previousEnd = end;
+    schedules[event.id] = { startTime: formatMinutes(start), endTime: formatMinutes(end), delayMinutes: Math.max(0, start - plannedStart) };
+  });
+  return schedules;
+};
+
+// Works out each heat of an event. Heats move with their event's projected start, a heat with
+// no status of its own is over once a later heat has been marked, and an event marked 종료/예정
+// (or with a recorded end) carries that to its unmarked heats.
+const getHeatProgress = (
+  event: SportsEvent,
+  heats: Heat[],
+  heatStatuses: HeatStatuses = {},
+  currentTime: string,
+  currentDate?: string,
+): HeatProgress[] => {
+  const shift = toMinutes(event.schedule.startTime) - toMinutes(event.startTime);
+  const eventOverride: ManualStatus | undefined = event.manualStatus === '종료' || event.manualStatus === '예정'
+    ? event.manualStatus
+    : event.actualTimes?.end ? '종료' : undefined;
+  const shiftTime = (time: string) => formatMinutes(Math.min(Math.max(toMinutes(time) + shift, 0), 23 * 60 + 59));
+
+  let laterHeatMarked = false;
+  return [...heats].reverse().map(heat => {
+    const manualStatus = heatStatuses[heat.id];
+    const schedule = { startTime: shiftTime(heat.startTime), endTime: shiftTime(heat.endTime) };
+    const fallback = manualStatus || eventOverride || (laterHeatMarked ? '종료' : undefined);
+    if (manualStatus === '활성' || manualStatus === '종료') laterHeatMarked = true;
+    const gradeClasses = Object.keys(event.scores || {}).filter(className => className.split('-')[0] === heat.grade);
+    return {
+      ...heat,
+      manualStatus,
+      schedule,
+      status: getEventStatus(schedule.startTime, schedule.endTime, currentTime, fallback, undefined, event.date, currentDate),
+      winners: gradeClasses.filter(className => isEventWinner(event, className)),
+    };
+  }).reverse();
+};
+
+// Delays shorter than this are within normal slack and are not announced
+const DELAY_NOTICE_MINUTES = 5;
+
+// "약 15분 지연", rounded to 5 minutes
+const formatDelayNotice = (delayMinutes: number): string => `약 ${Math.max(5, Math.round(delayMinutes / 5) * 5)}분 지연`;
+
+// --- Scoring Engine ---
+// Turns finishing positions into points. Positions are ranked per grade, and tied
+// classes share a place (1, 2, 2, 4), each receiving that place's points.
+interface PlacementScore {
+  rank: number | null; // null when disqualified
+  disqualified: boolean;
+  points: number;
+}
+
+const DEFAULT_POINT_TABLE: PointTable = { placements: [50, 30, 20], participation: 10, disqualified: 0 };
+const PLACEMENT_MEDALS = ['🥇', '🥈', '🥉'];
+
+const scorePlacements = (placements: Placements, pointTable: PointTable = DEFAULT_POINT_TABLE): { [className: string]: PlacementScore } => {
+  const results: { [className: string]: PlacementScore } = {};
+  const classesByGrade: { [grade: string]: string[] } = {};
+
+  Object.keys(placements).forEach(className => {
+    if (placements[className] === 'DQ') {
+      results[className] = { rank: null, disqualified: true, points: pointTable.disqualified };
+      return;
+    }
+    const grade = className.split('-')[0];
+    if (!classesByGrade[grade]) classesByGrade[grade] = [];
+    classesByGrade[grade].push(className);
+  });
+
+  Object.keys(classesByGrade).forEach(grade => {
+    const classes = classesByGrade[grade];
+    classes.forEach(className => {
+      const given = placements[className] as number;
+      // Competition ranking: 1 + number of classes that finished strictly ahead
+      const rank = 1 + classes.filter(other => (placements[other] as number) < given).length;
+      const points = pointTable.placements[rank - 1] ?? pointTable.participation;
+      results[className] = { rank, disqualified: false, points };
+    });
+  });
+
+  return results;
+};
+
+const formatPlacement = (result: PlacementScore): string => (result.disqualified ? '실격' : `${result.rank}등`);
+
+// Net adjustment per class; adjustments count toward totals but never toward an event's own score
+const sumAdjustments = (adjustments: ScoreAdjustment[] = []): Scores => {
+  const totals: Scores = {};
+  adjustments.forEach(({ className, amount }) => {
+    totals[className] = (totals[className] || 0) + amount;
+  });
+  return totals;
+};
+// --- END Scoring Engine ---
+
+// --- Standings ---
+// Ranks classes within each grade. Classes level on points are split as a group by the
+// configured tie-breakers in order; classes still level share a rank (1, 2, 2, 4).
+type TieBreaker = 'firstPlaces' | 'headToHead' | 'cheering';
+type StandingsView = 'total' | 'cheering' | 'final';
+
+interface StandingsConfig {
+  tieBreakers: TieBreaker[];
+  cheeringWeight: number; // multiplier applied to cheering scores in the 최종 순위 view
+}
+
+interface StandingRow {
+  className: string;
+  eventPoints: number;
+  adjustmentPoints: number;
+  cheeringPoints: number;
+  points: number; // the value the view ranks by
+  rank: number;
+  decidedBy: TieBreaker | null; // tie-breaker that separated this class from a class on equal points
+}
+
+const DEFAULT_STANDINGS_CONFIG: StandingsConfig = { tieBreakers: ['firstPlaces', 'headToHead', 'cheering'], cheeringWeight: 1 };
+const TIE_BREAKER_LABELS: Record<TieBreaker, string> = {
+  firstPlaces: '1등 횟수',
+  headToHead: '승자승',
+  cheering: '응원 점수',
+};
+
+// Validates the `standings` object of a catalog JSON document; invalid parts keep their defaults
+const normalizeStandingsConfig = (raw: unknown, report: (field: string, reason: string) => void): StandingsConfig => {
+  const config: StandingsConfig = { ...DEFAULT_STANDINGS_CONFIG };
+  if (!isPlainObject(raw)) {
+    report('standings', '객체가 아니어서 기본 순위 규칙을 사용합니다.');
+    return config;
+  }
+  if (raw.tieBreakers !== undefined) {
+    const known = Object.keys(TIE_BREAKER_LABELS);
+    if (isStringArray(raw.tieBreakers) && raw.tieBreakers.every(item => known.includes(item))) {
+      config.tieBreakers = raw.tieBreakers.filter((item, index, list) => list.indexOf(item) === index) as TieBreaker[];
+    } else {
+      report('standings.tieBreakers', `${known.join(', ')} 중에서 골라야 해서 기본 순서를 사용합니다.`);
+    }
+  }
+  if (raw.cheeringWeight !== undefined) {
+    if (typeof raw.cheeringWeight === 'number' && Number.isFinite(raw.cheeringWeight) && raw.cheeringWeight >= 0) {
+      config.cheeringWeight = raw.cheeringWeight;
+    } else {
+      report('standings.cheeringWeight', '0 이상의 숫자가 아니어서 기본 가중치를 사용합니다.');
+    }
+  }
+  return config;
+};
+
+// An event win is a recorded 1st place, or the grade's top score (above 0) when the event has no placements
+const isEventWinner = (event: SportsEvent, className: string): boolean => {
+  const placement = event.placementScores?.[className];
+  if (placement) return placement.rank === 1;
+  const score = event.scores?.[className];
+  if (!event.scores || !score || score <= 0) return false;
+  const grade = className.split('-')[0];
+  return Object.keys(event.scores).every(other => other.split('-')[0] !== grade || event.scores![other] <= score);
+};
+
+// Buckets classes by a score, highest score first
+const groupByScore = (classNames: string[], scoreOf: (className: string) => number): string[][] => {
+  const byScore: { [score: number]: string[] } = {};
+  classNames.forEach(className => {
+    const score = scoreOf(className);
+    if (!byScore[score]) byScore[score] = [];
+    byScore[score].push(className);
+  });
+  return Object.keys(byScore).map(Number).sort((a, b) => b - a).map(score => byScore[score]);
+};
+
+// Positive when `a` beat `b` in more events than `b` beat `a`
+const compareHeadToHead = (events: SportsEvent[], a: string, b: string): number =>
+  events.reduce((balance, event) => {
+    const scoreA = event.scores?.[a];
+    const scoreB = event.scores?.[b];
+    if (scoreA === undefined || scoreB === undefined) return balance;
+    return balance + Math.sign(scoreA - scoreB);
+  }, 0);
+
+const computeStandings = (
+  events: SportsEvent[],
+  cheeringScores: Scores,
+  adjustments: ScoreAdjustment[],
+  view: StandingsView,
+  config: StandingsConfig = DEFAULT_STANDINGS_CONFIG,
+): Record<string, StandingRow[]> => {
+  const adjustmentPoints = sumAdjustments(adjustments);
+  const eventPoints: Scores = {};
+  events.forEach(event => {
+    if (!event.scores) return;
+    Object.keys(event.scores).forEach(className => {
+      eventPoints[className] = (eventPoints[className] || 0) + Number(event.scores![className]);
+    });
+  });
+
+  const classNames = Object.keys(view === 'cheering' ? cheeringScores : { ...eventPoints, ...adjustmentPoints, ...cheeringScores });
+  const firstPlaces: Scores = {};
+  classNames.forEach(className => {
+    firstPlaces[className] = events.filter(event => isEventWinner(event, className)).length;
+  });
+
+  const pointsFor = (className: string): number => {
+    const cheering = Number(cheeringScores[className] || 0);
+    if (view === 'cheering') return cheering;
+    const total = (eventPoints[className] || 0) + (adjustmentPoints[className] || 0);
+    if (view === 'total') return total;
+    // Rounded so fractional weights don't surface floating point noise
+    return Math.round((total + cheering * config.cheeringWeight) * 10) / 10;
+  };
+
+  // The cheering view ranks by cheering alone, so tie-breakers would only repeat it
+  const tieBreakers = view === 'cheering' ? [] : config.tieBreakers;
+  // Head-to-head is scored among the tied classes only: each event a class beat another
+  // class of the group counts +1, each loss -1
+  const scoreBy = (tieBreaker: TieBreaker, group: string[], className: string): number => {
+    if (tieBreaker === 'firstPlaces') return firstPlaces[className];
+    if (tieBreaker === 'headToHead') {
+      return group.reduce((sum, other) => (other === className ? sum : sum + compareHeadToHead(events, className, other)), 0);
+    }
+    return Number(cheeringScores[className] || 0);
+  };
+  // Each tie-breaker is applied to the whole group; only the classes it separates are split off
+  const splitTies = (group: string[], remaining: TieBreaker[], decidedBy: TieBreaker | null): { classNames: string[]; decidedBy: TieBreaker | null }[] => {
+    if (group.length === 1 || remaining.length === 0) return [{ classNames: [...group].sort((a, b) => a.localeCompare(b)), decidedBy }];
+    const [tieBreaker, ...rest] = remaining;
+    const buckets = groupByScore(group, className => scoreBy(tieBreaker, group, className));
+    if (buckets.length === 1) return splitTies(group, rest, decidedBy);
+    return buckets.flatMap(bucket => splitTies(bucket, rest, tieBreaker));
+  };
+
+  const classesByGrade: Record<string, string[]> = {};
+  classNames.forEach(className => {
+    const grade = className.split('-')[0];
+    if (!classesByGrade[grade]) classesByGrade[grade] = [];
+    classesByGrade[grade].push(className);
+  });
+
+  const standings: Record<string, StandingRow[]> = {};
+  Object.keys(classesByGrade).forEach(grade => {
+    const rows: StandingRow[] = [];
+    groupByScore(classesByGrade[grade], pointsFor).forEach(group => {
+      splitTies(group, tieBreakers, null).forEach(({ classNames: tied, decidedBy }) => {
+        const rank = rows.length + 1;
+        tied.forEach(className => {
+          rows.push({
+            className,
+            eventPoints: eventPoints[className] || 0,
+            adjustmentPoints: adjustmentPoints[className] || 0,
+            cheeringPoints: Number(cheeringScores[className] || 0),
+            points: pointsFor(className),
+            rank,
+            decidedBy,
+          });
+        });
+      });
+    });
+    standings[grade] = rows;
+  });
+  return standings;
+};
+// --- END Standings ---
+
+// --- Championship Outlook ---
+// Bounds each class's final event total from the events that are not finished yet:
+// a remaining event can still pay anything from the disqualified points up to the
+// 1st place points, replacing whatever provisional score it shows now. Cheering
+// scores have no maximum and are left out.
+type OutlookStatus = 'clinched' | 'eliminated' | 'contender';
+
+interface ClassOutlook {
+  className: string;
+  points: number;
+  minPoints: number;
+  maxPoints: number;
+  status: OutlookStatus;
+  // Lowest finish in every remaining event that guarantees 1st; null when no finish does
+  neededFinish: number | null;
+}
+
+interface GradeOutlook {
+  remainingEvents: string[];
+  classes: ClassOutlook[]; // highest possible total first
+}
+
+const pointsForFinish = (table: PointTable, rank: number): number => table.placements[rank - 1] ?? table.participation;
+
+const computeChampionshipOutlook = (events: SportsEvent[], adjustments: ScoreAdjustment[] = []): Record<string, GradeOutlook> => {
+  const adjustmentPoints = sumAdjustments(adjustments);
+  const scoredEvents = events.filter(event => event.scores);
+  const remaining = scoredEvents.filter(event => event.status !== '종료');
+  const tables = remaining.map(event => event.pointTable || DEFAULT_POINT_TABLE);
+  // Finishes worth checking: every paid place, then participation
+  const longestTable = Math.max(0, ...tables.map(table => table.placements.length));
+
+  const classesByGrade: Record<string, string[]> = {};
+  scoredEvents.forEach(event => {
+    Object.keys(event.scores!).forEach(className => {
+      const grade = className.split('-')[0];
+      if (!classesByGrade[grade]) classesByGrade[grade] = [];
+      if (!classesByGrade[grade].includes(className)) classesByGrade[grade].push(className);
+    });
+  });
+
+  const outlook: Record<string, GradeOutlook> = {};
+  Object.keys(classesByGrade).forEach(grade => {
+    const bounds = classesByGrade[grade].map(className => {
+      const points = scoredEvents.reduce((sum, event) => sum + Number(event.scores![className] || 0), adjustmentPoints[className] || 0);
+      const settled = points - remaining.reduce((sum, event) => sum + Number(event.scores![className] || 0), 0);
+      return {
+        className,
+        points,
+        settled,
+        minPoints: settled + tables.reduce((sum, table) => sum + table.disqualified, 0),
+        maxPoints: settled + tables.reduce((sum, table) => sum + pointsForFinish(table, 1), 0),
+      };
+    });
+
+    const classes = bounds.map(({ className, points, settled, minPoints, maxPoints }) => {
+      const rivals = bounds.filter(other => other.className !== className);
+      const bestRival = Math.max(-Infinity, ...rivals.map(rival => rival.maxPoints));
+      let status: OutlookStatus = 'contender';
+      if (rivals.length === 0 || minPoints > bestRival) status = 'clinched';
+      else if (rivals.some(rival => rival.minPoints > maxPoints)) status = 'eliminated';
+
+      // Each rival takes the best place this class leaves open: 1st, or 2nd when this class wins
+      let neededFinish: number | null = null;
+      if (status === 'contender' && remaining.length > 0) {
+        for (let rank = longestTable + 1; rank >= 1; rank--) {
+          const guaranteed = settled + tables.reduce((sum, table) => sum + pointsForFinish(table, rank), 0);
+          const rivalRank = rank === 1 ? 2 : 1;
+          const bestRivalGivenRank = Math.max(-Infinity, ...rivals.map(rival =>
+            rival.settled + tables.reduce((sum, table) => sum + pointsForFinish(table, rivalRank), 0)));
+          if (guaranteed > bestRivalGivenRank) {
+            neededFinish = rank;
+            break;
+          }
+        }
+      }
+      return { className, points, minPoints, maxPoints, status, neededFinish };
+    });
+
+    classes.sort((a, b) => b.maxPoints - a.maxPoints || b.points - a.points || a.className.localeCompare(b.className));
+    outlook[grade] = { remainingEvents: remaining.map(event => event.title), classes };
+  });
+  return outlook;
+};
+// --- END Championship Outlook ---
 
-  2. 시작 5초 뒤, 심판의 휘슬에 맞춰 남학생 선발대가 출발선에서 줄에 합류한다.
+// --- Score History ---
+// Every data refresh is compared with the previous snapshot and the differences are
+// appended to a change log kept in localStorage per data source, so a contested score
+// can be traced after a reload.
+interface ScoreChange {
+  at: string; // ISO timestamp of when the change was seen
+  kind: 'score' | 'cheering' | 'adjustment' | 'status';
+  eventId: number | null; // null for cheering scores and net adjustments
+  eventTitle: string;
+  className?: string;
+  previous?: number;
+  current?: number;
+  previousStatus?: Status;
+  status?: Status;
+}
 
-  3. 다시 5초 뒤, 심판의 휘슬과 함께 남학생 후발대도 줄에 합류한다.
+interface ScoreSnapshot {
+  scoresByEvent: { [eventId: number]: Scores };
+  statuses: { [eventId: number]: Status }; // only statuses the host reported, not ones the clock moved
+  cheeringScores: Scores;
+  adjustmentTotals?: Scores; // missing in histories saved before adjustments existed
+}
 
-  4. 두 팀 모두 전원이 합류한 뒤, 힘과 팀워크로 줄을 끝까지 당긴다.
+interface SavedScoreHistory {
+  sourceKey: string;
+  snapshot: ScoreSnapshot;
+  changes: ScoreChange[]; // oldest first
+}
 
-  5. 중앙 기준선을 기준으로 상대 팀을 자기 쪽으로 끌어오면 승리!
+const SCORE_HISTORY_STORAGE_KEY = 'sportsDayScoreHistory';
+const SCORE_HISTORY_LIMIT = 300;
+const DELTA_BADGE_MS = 8000;
 
-  6. 경기에 참여하는 인원은 양 팀 모두 같아야 하며, 인원이 적은 팀 기준으로 맞춘다.`,
-      gameFormat: `• 모든 예선전은 단판으로 진행합니다.\n• 결승전은 3판 2선승제로 진행하며, 1:1 동점 시 전통 줄다리기로 승부를 가립니다.\n\n[진행 순서]\n1학년 → 2학년 → 3학년 순으로 예선 및 결승이 진행됩니다.`,
-      players: tugOfWarPlayers,
-    },
-    {
-      id: 3,
-      title: '교사 vs 교사 이벤트 계주',
-      startTime: '11:00',
-      endTime: '11:20',
-      location: '운동장',
-      rules: `🎉 선생님들의 자존심을 건 한판 승부! 🎉\n이과팀과 문과팀, 과연 어느 팀이 운동장을 지배할까요? 학생 여러분의 뜨거운 응원이 필요합니다! 🔥`,
-      teacherTeams: {
-        '문과 팀': ['👑 신승호', '공진현', '노예은', '한지수', '김지윤'],
-        '이과 팀': ['👑 신진섭', '윤해움', '임재철', '김재홍', '김민지']
+const getDataSourceKey = (config: DataSourceConfig): string => {
+  if (config.kind === 'json-file') return `${config.kind}:${config.fileName}`;
+  if (config.kind === 'memory') return config.kind;
+  return `${config.kind}:${config.url}`;
+};
+
+const takeScoreSnapshot = (events: SportsEvent[], cheeringScores: Scores, adjustments: ScoreAdjustment[] = []): ScoreSnapshot => {
+  const snapshot: ScoreSnapshot = {
+    scoresByEvent: {},
+    statuses: {},
+    cheeringScores: { ...cheeringScores },
+    adjustmentTotals: sumAdjustments(adjustments),
+  };
+  events.forEach(event => {
+    if (event.scores) snapshot.scoresByEvent[event.id] = { ...event.scores };
+    const reported = event.manualStatus || event.actualTimes?.start || event.actualTimes?.end
+      || event.heats?.some(heat => heat.manualStatus);
+    if (reported) snapshot.statuses[event.id] = event.status;
+  });
+  return snapshot;
+};
+
+const diffScoreSnapshots = (previous: ScoreSnapshot, next: ScoreSnapshot, events: SportsEvent[], at: string): ScoreChange[] => {
+  const changes: ScoreChange[] = [];
+  // Compared over the classes of both sides so a class that disappeared is logged as dropping to 0
+  const diffScores = (before: Scores, after: Scores, change: Omit<ScoreChange, 'className' | 'previous' | 'current'>) => {
+    const classNames = Object.keys(after).concat(Object.keys(before).filter(className => !(className in after)));
+    classNames.forEach(className => {
+      const from = Number(before[className] || 0);
+      const to = Number(after[className] || 0);
+      if (from !== to) changes.push({ ...change, className, previous: from, current: to });
+    });
+  };
+
+  events.forEach(event => {
+    const before = previous.scoresByEvent[event.id];
+    const after = next.scoresByEvent[event.id];
+    if (before || after) diffScores(before || {}, after || {}, { at, kind: 'score', eventId: event.id, eventTitle: event.title });
+    // A reported status that was withdrawn hands the event back to the clock, which is not logged
+    const status = next.statuses[event.id];
+    const previousStatus = previous.statuses[event.id];
+    if (status && status !== previousStatus) {
+      changes.push({ at, kind: 'status', eventId: event.id, eventTitle: event.title, ...(previousStatus && { previousStatus }), status });
+    }
+  });
+  diffScores(previous.cheeringScores, next.cheeringScores, { at, kind: 'cheering', eventId: null, eventTitle: '질서 응원' });
+  diffScores(previous.adjustmentTotals || {}, next.adjustmentTotals || {}, { at, kind: 'adjustment', eventId: null, eventTitle: '가감점' });
+  return changes;
+};
+
+const loadScoreHistory = (sourceKey: string): SavedScoreHistory | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SCORE_HISTORY_STORAGE_KEY) || 'null');
+    return saved && saved.sourceKey === sourceKey && Array.isArray(saved.changes) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+const formatDelta = (delta: number): string => (delta > 0 ? `+${delta}` : String(delta));
+
+const formatScoreChange = (change: ScoreChange): string => {
+  if (change.kind === 'status') {
+    return change.previousStatus ? `${change.eventTitle} ${change.previousStatus} → ${change.status}` : `${change.eventTitle} ${change.status}`;
+  }
+  const [grade, classNumber] = (change.className || '').split('-');
+  const delta = (change.current ?? 0) - (change.previous ?? 0);
+  return `${change.eventTitle} ${grade}학년 ${classNumber}반 ${formatDelta(delta)} (${change.previous} → ${change.current})`;
+};
+
+interface ScoreDeltas {
+  byEvent: { [eventId: number]: Scores };
+  cheering: Scores;
+  adjustments: Scores;
+}
+
+// Sums the score deltas of recent changes, per event, for cheering and for adjustments
+const sumScoreDeltas = (changes: ScoreChange[]): ScoreDeltas => {
+  const byEvent: { [eventId: number]: Scores } = {};
+  const cheering: Scores = {};
+  const adjustments: Scores = {};
+  changes.forEach(change => {
+    if (change.kind === 'status' || !change.className) return;
+    if (change.eventId !== null && !byEvent[change.eventId]) byEvent[change.eventId] = {};
+    const target = change.eventId !== null ? byEvent[change.eventId] : change.kind === 'cheering' ? cheering : adjustments;
+    target[change.className] = (target[change.className] || 0) + (change.current ?? 0) - (change.previous ?? 0);
+  });
+  return { byEvent, cheering, adjustments };
+};
+// --- END Score History ---
+
+// --- Reminders (Now/Next banner and start notifications) ---
+// Students opt in per event on their own device. A notification fires REMINDER_LEAD_MINUTES
+// before the projected start, and again once a host confirms the start (활성 or a recorded
+// start time). Sent notifications are remembered so a reload does not repeat them.
+const REMINDERS_STORAGE_KEY = 'SPORTS_DAY_REMINDERS';
+const REMINDER_LEAD_MINUTES = 5;
+
+interface SavedReminders {
+  eventIds: number[];
+  sent: string[]; // "<eventId>:soon" or "<eventId>:start"
+}
+
+const EMPTY_REMINDERS: SavedReminders = { eventIds: [], sent: [] };
+
+const loadSavedReminders = (): SavedReminders => {
+  const saved = localStorage.getItem(REMINDERS_STORAGE_KEY);
+  if (!saved) return EMPTY_REMINDERS;
+  try {
+    const parsed = JSON.parse(saved);
+    return {
+      eventIds: Array.isArray(parsed.eventIds) ? parsed.eventIds.filter(Number.isInteger) : [],
+      sent: Array.isArray(parsed.sent) ? parsed.sent.filter((key: unknown) => typeof key === 'string') : [],
+    };
+  } catch {
+    localStorage.removeItem(REMINDERS_STORAGE_KEY);
+    return EMPTY_REMINDERS;
+  }
+};
+
+const canNotify = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// The projected start of an event on the (corrected) clock; undated events happen today
+const getEventStartAt = (event: SportsEvent, now: Date): Date =>
+  new Date(`${event.date || getCurrentDate(now)}T${event.schedule.startTime}:00`);
+
+// "1시간 5분" an hour or more ahead, "12분 05초" below that
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  if (hours > 0) return `${hours}시간 ${minutes}분`;
+  return `${minutes}분 ${String(totalSeconds % 60).padStart(2, '0')}초`;
+};
+
+// The notifications that are due for the reminded events and have not been sent yet
+const getDueReminders = (events: SportsEvent[], reminders: SavedReminders, now: Date) => {
+  const due: { key: string; title: string; body: string; tag: string }[] = [];
+  events.filter(event => reminders.eventIds.includes(event.id)).forEach(event => {
+    const startKey = `${event.id}:start`;
+    const soonKey = `${event.id}:soon`;
+    const isConfirmedStart = event.manualStatus === '활성' || !!event.actualTimes?.start;
+    if (event.status === '진행중' && isConfirmedStart) {
+      if (!reminders.sent.includes(startKey)) {
+        due.push({ key: startKey, title: `${event.title} 시작`, body: `${event.location}에서 경기가 시작되었습니다.`, tag: `event-${event.id}` });
       }
-    },
-    {
-      id: 4,
-      title: '댄스팀 공연',
-      startTime: '11:20',
-      endTime: '11:35',
-      location: '운동장',
-      danceTeams: {
-        '케이팝 중원 헌터스': {
-            members: ['류강민', '윤중근', '고도윤'],
-            songs: ['GOLDEN']
-        },
-        '금슬연화': {
-            members: ['이유진(3학년)', '홍지민', '최윤아', '최지유', '강다혜', '한지효'],
-            songs: ['에스파 - Dirty work', '효린 - 바다보러갈래']
-        },
+      return;
+    }
+    if (event.status !== '예정' || reminders.sent.includes(soonKey) || reminders.sent.includes(startKey)) return;
+    const minutesUntilStart = (getEventStartAt(event, now).getTime() - now.getTime()) / (60 * 1000);
+    if (minutesUntilStart <= REMINDER_LEAD_MINUTES) {
+      due.push({
+        key: soonKey,
+        title: `${event.title} 곧 시작`,
+        body: `약 ${Math.max(1, Math.round(minutesUntilStart))}분 후 ${event.location}에서 시작합니다. (${event.schedule.startTime})`,
+        tag: `event-${event.id}`,
+      });
+    }
+  });
+  return due;
+};
+
+const showNotification = (title: string, body: string, tag: string) => {
+  try {
+    new Notification(title, { body, tag });
+  } catch (e) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error(e);
+  }
+};
+// --- END Reminders ---
+
+// --- Student Search ---
+// Every place a student's name appears in the rosters, so a student can look up all of
+// their events at once. Matching ignores spaces, and a query typed only in initial
+// consonants (e.g. "ㄱㅎㅇ") matches names by their initials.
+
+// Events whose roster lists runners in running order
+const RUNNER_EVENT_TITLES = ['미션 달리기', '계주'];
+
+const STUDENT_SEARCH_MIN_LENGTH = 2;
+const STUDENT_SEARCH_MAX_RESULTS = 30;
+
+interface RosterEntry {
+  name: string;
+  className?: string; // missing for groups such as dance teams that mix classes
+  event: SportsEvent;
+  role: string;
+  startTime: string; // the grade's heat when the event has one, otherwise the event's projected time
+  endTime: string;
+}
+
+const buildRosterIndex = (events: SportsEvent[]): RosterEntry[] => {
+  const entries: RosterEntry[] = [];
+  events.forEach(event => {
+    const { startTime, endTime } = event.schedule;
+    const substitutedSuffix = (className: string, slot: string, name: string) =>
+      (findSubstitution(event.substitutions, className, slot, name) ? ' · 교체' : '');
+    if (event.players) {
+      Object.keys(event.players).forEach(grade => {
+        const heat = event.heats?.find(item => item.grade === grade);
+        const times = heat ? heat.schedule : { startTime, endTime };
+        // Mission runners are labelled with their leg, e.g. "1번 주자 (여자)", and their drawn mission once published
+        const legs = Object.keys(event.missions?.[grade] || {});
+        const drawnMissions = event.missionAssignments?.[grade];
+        Object.keys(event.players![grade]).forEach(className => {
+          const players = event.players![grade][className];
+          if (Array.isArray(players)) {
+            players.forEach((name, index) => entries.push({
+              name,
+              className,
+              event,
+              role: (legs[index] || (RUNNER_EVENT_TITLES.includes(event.title) ? `${index + 1}번 주자` : '선수'))
+                + (drawnMissions?.[legs[index]]?.[className] ? ` · ${drawnMissions[legs[index]][className]}` : '')
+                + substitutedSuffix(className, String(index + 1), name),
+              ...times,
+            }));
+          } else {
+            (Object.keys(TUG_OF_WAR_CATEGORY_LABELS) as (keyof TugOfWarPlayerClass)[]).forEach(category => {
+              players[category].forEach(name => entries.push({
+                name,
+                className,
+                event,
+                role: TUG_OF_WAR_CATEGORY_LABELS[category] + substitutedSuffix(className, category, name),
+                ...times,
+              }));
+            });
+          }
+        });
+      });
+    }
+    if (event.danceTeams) {
+      Object.keys(event.danceTeams).forEach(teamName => {
+        event.danceTeams![teamName].members.forEach(name => entries.push({ name, event, role: teamName, startTime, endTime }));
+      });
+    }
+  });
+  return entries;
+};
+
+const CHOSEONG = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ';
+const CHOSEONG_QUERY_PATTERN = /^[ㄱ-ㅎ]+$/;
+
+// "강혜윤" -> "ㄱㅎㅇ"; characters that are not Hangul syllables are kept as they are
+const toChoseong = (text: string): string => Array.from(text).map(char => {
+  const code = char.charCodeAt(0) - 0xac00;
+  return code >= 0 && code < 11172 ? CHOSEONG[Math.floor(code / 588)] : char;
+}).join('');
+
+const normalizeSearchText = (text: string): string => text.normalize('NFC').replace(/\s+/g, '').toLowerCase();
+
+const searchRoster = (entries: RosterEntry[], query: string): RosterEntry[] => {
+  const normalizedQuery = normalizeSearchText(query);
+  if (normalizedQuery.length < STUDENT_SEARCH_MIN_LENGTH) return [];
+  const byInitials = CHOSEONG_QUERY_PATTERN.test(normalizedQuery);
+  return entries
+    .filter(entry => {
+      const name = normalizeSearchText(entry.name);
+      return (byInitials ? toChoseong(name) : name).includes(normalizedQuery);
+    })
+    .sort((a, b) => a.name.localeCompare(b.name) || (a.className || '').localeCompare(b.className || '') || a.startTime.localeCompare(b.startTime));
+};
+// --- END Student Search ---
+
+// --- Components ---
+
+// --- Tournament Bracket Types and Generator ---
+type TeamSpec = string | { winnerOf: string } | { loserOf: string };
+interface Match {
+  id: string;
+  teams: [TeamSpec, TeamSpec];
+  bestOf: number; // 1 for a single game
+}
+interface Round {
+  title: string;
+  matches: Match[];
+}
+interface GradeBracket {
+  format: BracketFormat;
+  rounds: Round[];
+}
+interface BracketData {
+  [grade: string]: GradeBracket;
+}
+
+const BRACKET_FORMAT_LABELS: Record<BracketFormat, string> = {
+  single: '대진표',
+  double: '더블 엘리미네이션 대진표',
+  roundRobin: '리그전',
+};
+
+// Recorded in place of a class name for a drawn game; only round-robin games can be drawn
+const BRACKET_DRAW = 'DRAW';
+
+// Deterministic PRNG (mulberry32) so a random draw can be reproduced from its seed
+const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Returns the first-round order for a grade: consecutive pairs meet, and with an odd
+// count the last class gets the bye.
+const seedBracketTeams = (classNames: string[], config: BracketConfig, grade: string, rankedClasses: string[] = []): string[] => {
+  const sorted = [...classNames].sort((a, b) => a.localeCompare(b));
+  if (config.seeding === 'manual') {
+    const order = (config.order?.[grade] || []).filter(className => sorted.includes(className));
+    return [...order, ...sorted.filter(className => !order.includes(className))];
+  }
+  if (config.seeding === 'random') {
+    const random = createSeededRandom((config.seed ?? 0) + Number(grade));
+    const shuffled = [...sorted];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+  // Standings: the leader takes the bye, then the best remaining class meets the worst
+  const seeds = [...rankedClasses.filter(className => sorted.includes(className)), ...sorted.filter(className => !rankedClasses.includes(className))];
+  const bye = seeds.length % 2 === 1 ? seeds.shift() : undefined;
+  const order: string[] = [];
+  for (let i = 0; i < seeds.length / 2; i++) {
+    order.push(seeds[i], seeds[seeds.length - 1 - i]);
+  }
+  return bye ? [...order, bye] : order;
+};
+
+// Pairs consecutive teams; with an odd count the last team sits the round out
+const pairTeams = (teams: TeamSpec[], idFor: (matchNumber: number) => string): { matches: Match[]; bye: TeamSpec | null } => {
+  const remaining = [...teams];
+  const bye = remaining.length % 2 === 1 ? remaining.pop()! : null;
+  const matches: Match[] = [];
+  for (let i = 0; i < remaining.length; i += 2) {
+    matches.push({ id: idFor(i / 2 + 1), teams: [remaining[i], remaining[i + 1]], bestOf: 1 });
+  }
+  return { matches, bye };
+};
+
+// Single elimination for any number of teams. A round with an odd number of teams gives
+// its last team a bye, and that team meets the first winner in the next round.
+const buildKnockoutRounds = (grade: string, roundKey: string, teams: TeamSpec[]): Round[] => {
+  const rounds: Round[] = [];
+  let current = teams;
+  while (current.length > 1) {
+    const { matches, bye } = pairTeams(current, matchNumber => `g${grade}-${roundKey}${rounds.length + 1}-m${matchNumber}`);
+    const winners: TeamSpec[] = matches.map(match => ({ winnerOf: match.id }));
+    current = bye ? [winners[0], bye, ...winners.slice(1)] : winners;
+    rounds.push({ title: '', matches });
+  }
+  return rounds;
+};
+
+const titleKnockoutRounds = (rounds: Round[], prefix = '') => {
+  rounds.forEach((round, index) => {
+    const fromEnd = rounds.length - 1 - index;
+    round.title = prefix + (fromEnd === 0 ? '결승' : fromEnd === 1 && !prefix ? '준결승' : `${index + 1}라운드`);
+  });
+};
+
+// Double elimination: a class is out after its second loss. Each upper round's losers drop
+// into the losers' bracket, and the two bracket winners meet in the final (no reset game).
+const buildDoubleEliminationRounds = (grade: string, teams: string[]): Round[] => {
+  const upper = buildKnockoutRounds(grade, 'w', teams);
+  if (upper.length === 0) return [];
+  titleKnockoutRounds(upper, '승자조 ');
+
+  const lower: Round[] = [];
+  const playLowerRound = (entrants: TeamSpec[]): TeamSpec[] => {
+    const { matches, bye } = pairTeams(entrants, matchNumber => `g${grade}-l${lower.length + 1}-m${matchNumber}`);
+    if (matches.length === 0) return entrants;
+    lower.push({ title: '', matches });
+    const winners: TeamSpec[] = matches.map(match => ({ winnerOf: match.id }));
+    return bye ? [bye, ...winners] : winners;
+  };
+
+  let survivors: TeamSpec[] = [];
+  upper.forEach(round => {
+    // Reversed so a dropped class does not meet the class that just beat its bracket neighbour
+    const dropped: TeamSpec[] = round.matches.map(match => ({ loserOf: match.id })).reverse();
+    // Thin the losers' bracket first so each survivor meets one newly dropped class
+    while (survivors.length > dropped.length) survivors = playLowerRound(survivors);
+    const entrants: TeamSpec[] = [];
+    for (let i = 0; i < dropped.length; i++) {
+      if (survivors[i]) entrants.push(survivors[i]);
+      entrants.push(dropped[i]);
+    }
+    survivors = playLowerRound(entrants);
+  });
+  while (survivors.length > 1) survivors = playLowerRound(survivors);
+  titleKnockoutRounds(lower, '패자조 ');
+
+  const upperFinal = upper[upper.length - 1].matches[0];
+  const grandFinal: Round = { title: '결승', matches: [{ id: `g${grade}-f1-m1`, teams: [{ winnerOf: upperFinal.id }, survivors[0]], bestOf: 1 }] };
+  return [...upper, ...lower, grandFinal];
+};
+
+// Round robin: every class meets every other once. Rounds follow the circle method, so
+// with an odd count a different class rests each round.
+const buildRoundRobinRounds = (grade: string, teams: string[]): Round[] => {
+  const slots: (string | null)[] = teams.length % 2 === 1 ? [...teams, null] : [...teams];
+  const rounds: Round[] = [];
+  for (let roundIndex = 0; roundIndex < slots.length - 1; roundIndex++) {
+    const matches: Match[] = [];
+    for (let i = 0; i < slots.length / 2; i++) {
+      const home = slots[i];
+      const away = slots[slots.length - 1 - i];
+      if (home && away) {
+        matches.push({ id: `g${grade}-r${roundIndex + 1}-m${matches.length + 1}`, teams: [home, away], bestOf: 1 });
       }
-    },
-    {
-      id: 5,
-      title: '계주',
-      startTime: '11:35',
-      endTime: '12:25',
-      location: '운동장',
-      scores: { '1-1': 0, '1-2': 0, '1-3': 0, '1-4': 0, '1-5': 0, '2-1': 0, '2-2': 0, '2-3': 0, '2-4': 0, '3-1': 0, '3-2': 0, '3-3': 0, '3-4': 0, '3-5': 0 },
-      rules: `1. 각 학년 모두 예선 없이 바로 본선 경기로 진행됩니다.
+    }
+    rounds.push({ title: `${roundIndex + 1}라운드`, matches });
+    // The first slot stays put and the rest rotate by one
+    slots.splice(1, 0, slots.pop()!);
+  }
+  return rounds;
+};
 
-  2.주자는 바통을 이어받아 1바퀴씩 달리며 팀 경기를 이어갑니다.
+const generateBracket = (grade: string, teams: string[], config: BracketConfig): GradeBracket => {
+  const format = config.format || 'single';
+  if (format === 'roundRobin') return { format, rounds: buildRoundRobinRounds(grade, teams) };
 
-  3.모든 주자가 달린 뒤 결승점에 가장 먼저 들어오는 순서대로 순위가 결정됩니다.`,
-      players: relayRacePlayers,
-    },
-    { id: 6, title: '폐회식', startTime: '12:25', endTime: '12:40', location: '운동장' },
-    {
-      id: 7,
-      title: '점심시간 및 뒷정리',
-      startTime: '12:40',
-      endTime: '13:20',
-      location: '운동장',
-      lunchMenu: `🍚 치킨마요덮밥\n🍜 가쓰오우동국\n🥘 치즈옹심이떡볶이\n🥮 단무지무침\n🥬 배추김치\n🍍 파인애플`
-    },
-  ];
+  let rounds: Round[];
+  if (format === 'double') {
+    rounds = buildDoubleEliminationRounds(grade, teams);
+  } else {
+    rounds = buildKnockoutRounds(grade, 'r', teams);
+    titleKnockoutRounds(rounds);
+  }
+  if (rounds.length > 0) rounds[rounds.length - 1].matches[0].bestOf = config.finalBestOf ?? 1;
+  return { format, rounds };
+};
+
+// "(1R 2G 승리팀)", "(승자조 결승 패배팀)", or "(준결승 승리팀)" when the round has a single match
+const getPlaceholderLabel = (rounds: Round[], team: { winnerOf: string } | { loserOf: string }): string => {
+  const matchId = 'winnerOf' in team ? team.winnerOf : team.loserOf;
+  const outcome = 'winnerOf' in team ? '승리팀' : '패배팀';
+  for (const round of rounds) {
+    const index = round.matches.findIndex(match => match.id === matchId);
+    if (index === -1) continue;
+    const roundLabel = round.title.replace(/(\d+)라운드$/, '$1R');
+    return round.matches.length > 1 ? `(${roundLabel} ${index + 1}G ${outcome})` : `(${roundLabel} ${outcome})`;
+  }
+  return `(${outcome})`;
+};
+
+const buildBracketData = (event: SportsEventData, rankedClassesByGrade: Record<string, string[]> = {}): BracketData => {
+  const classesByGrade: Record<string, string[]> = {};
+  Object.keys(event.scores || {}).forEach(className => {
+    const grade = className.split('-')[0];
+    if (!classesByGrade[grade]) classesByGrade[grade] = [];
+    classesByGrade[grade].push(className);
+  });
+  const config = event.bracket || { seeding: 'manual' };
+  const brackets: BracketData = {};
+  Object.keys(classesByGrade).sort().forEach(grade => {
+    brackets[grade] = generateBracket(grade, seedBracketTeams(classesByGrade[grade], config, grade, rankedClassesByGrade[grade]), config);
+  });
+  return brackets;
+};
+
+const formatTeamName = (className: string): string => `${className.split('-')[1]}반`;
+
+const EMPTY_BRACKET_RESULTS: BracketResults = {};
+
+// Game-by-game state of a match; a single game is a series of one
+interface SeriesState {
+  games: { winner: string; decider: boolean }[]; // winner is BRACKET_DRAW for a drawn game
+  wins: { [className: string]: number };
+  winner: string | null;
+  drawn: boolean; // every game played without a series winner (round robin only)
+  deciderNext: boolean; // tied with one game left, e.g. 1:1 in a best of three
+}
+
+const getSeriesState = (match: Match, games: string[] = []): SeriesState => {
+  const winsNeeded = Math.ceil(match.bestOf / 2);
+  const state: SeriesState = { games: [], wins: {}, winner: null, drawn: false, deciderNext: false };
+  games.forEach(gameWinner => {
+    // Games recorded after the series was decided do not count
+    if (state.winner || state.games.length >= match.bestOf) return;
+    state.games.push({ winner: gameWinner, decider: match.bestOf > 1 && state.games.length === match.bestOf - 1 });
+    if (gameWinner === BRACKET_DRAW) return;
+    state.wins[gameWinner] = (state.wins[gameWinner] || 0) + 1;
+    if (state.wins[gameWinner] >= winsNeeded) state.winner = gameWinner;
+  });
+  state.drawn = !state.winner && state.games.length === match.bestOf;
+  state.deciderNext = !state.winner && match.bestOf > 1 && state.games.length === match.bestOf - 1;
+  return state;
+};
+
+const findMatch = (rounds: Round[], matchId: string): Match | undefined => {
+  for (const round of rounds) {
+    const match = round.matches.find(candidate => candidate.id === matchId);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+interface MatchOutcome {
+  teams: [string | null, string | null]; // null while the feeding match is undecided
+  series: SeriesState;
+  winner: string | null;
+  loser: string | null;
+}
+
+// Only games won by one of the match's two classes (or drawn, in a round robin) count; anything else is a wrong entry
+const countedGames = (teams: (string | null)[], games: string[] = [], allowDraws: boolean): string[] =>
+  games.filter(game => (allowDraws && game === BRACKET_DRAW) || teams.includes(game));
+
+// Resolves every match in playing order: its two classes (once known) and its result
+const resolveBracket = ({ format, rounds }: GradeBracket, results: BracketResults): { [matchId: string]: MatchOutcome } => {
+  const outcomes: { [matchId: string]: MatchOutcome } = {};
+  const resolveTeam = (team: TeamSpec): string | null => {
+    if (typeof team === 'string') return team;
+    return 'winnerOf' in team ? outcomes[team.winnerOf]?.winner ?? null : outcomes[team.loserOf]?.loser ?? null;
+  };
+  rounds.forEach(round => {
+    round.matches.forEach(match => {
+      const teams: [string | null, string | null] = [resolveTeam(match.teams[0]), resolveTeam(match.teams[1])];
+      const series = getSeriesState(match, countedGames(teams, results[match.id], format === 'roundRobin'));
+      const loser = series.winner ? teams.find(team => team && team !== series.winner) ?? null : null;
+      outcomes[match.id] = { teams, series, winner: series.winner, loser };
+    });
+  });
+  return outcomes;
+};
+
+interface BracketResultMismatch {
+  matchId: string;
+  reason: string;
+}
+
+// Recorded winners the bracket cannot use: a class that is not in that match (a typo, or a
+// result entered before the earlier round decided who plays), a draw outside a round robin,
+// or a match id the bracket lacks
+const findBracketResultMismatches = (bracketData: BracketData, results: BracketResults): BracketResultMismatch[] => {
+  const mismatches: BracketResultMismatch[] = [];
+  const knownMatchIds = new Set<string>();
+  Object.keys(bracketData).forEach(grade => {
+    const { format, rounds } = bracketData[grade];
+    const outcomes = resolveBracket(bracketData[grade], results);
+    rounds.forEach(round => {
+      round.matches.forEach(match => {
+        knownMatchIds.add(match.id);
+        const { teams } = outcomes[match.id];
+        (results[match.id] || []).forEach(winner => {
+          if (countedGames(teams, [winner], format === 'roundRobin').length > 0) return;
+          if (winner === BRACKET_DRAW) {
+            mismatches.push({ matchId: match.id, reason: '무승부는 리그전에서만 기록할 수 있습니다.' });
+            return;
+          }
+          const opponents = teams.map(team => team ?? '미정').join(' vs ');
+          mismatches.push({ matchId: match.id, reason: `승리 반 "${winner}"이(가) 이 대진의 반이 아닙니다. (${opponents})` });
+        });
+      });
+    });
+  });
+  Object.keys(results).forEach(matchId => {
+    if (!knownMatchIds.has(matchId)) mismatches.push({ matchId, reason: '대진표에 없는 대진입니다.' });
+  });
+  return mismatches;
+};
+
+const feedsFrom = (team: TeamSpec, matchId: string): boolean =>
+  typeof team === 'object' && ('winnerOf' in team ? team.winnerOf : team.loserOf) === matchId;
+
+// Replaces a match's games; when that changes its winner, every later match that depended on it is cleared
+const setMatchGames = (rounds: Round[], results: BracketResults, matchId: string, games: string[]): BracketResults => {
+  const match = findMatch(rounds, matchId);
+  if (!match) return results;
+  const next = { ...results };
+  if (games.length > 0) {
+    next[matchId] = games;
+  } else {
+    delete next[matchId];
+  }
+  if (getSeriesState(match, results[matchId]).winner === getSeriesState(match, games).winner) return next;
+
+  const clearDependents = (changedId: string) => {
+    rounds.forEach(round => {
+      round.matches.forEach(dependent => {
+        if (dependent.teams.some(team => feedsFrom(team, changedId)) && next[dependent.id]) {
+          delete next[dependent.id];
+          clearDependents(dependent.id);
+        }
+      });
+    });
+  };
+  clearDependents(matchId);
+  return next;
+};
+
+// Records one game won by `winner` (or BRACKET_DRAW). A single game toggles like before (picking
+// the same result again clears it); a decided series only changes through undoMatchGame.
+const recordMatchGame = (rounds: Round[], results: BracketResults, matchId: string, winner: string): BracketResults => {
+  const match = findMatch(rounds, matchId);
+  if (!match) return results;
+  const series = getSeriesState(match, results[matchId]);
+  const played = series.games.map(game => game.winner);
+  const outcome = series.winner ?? (series.drawn ? BRACKET_DRAW : null);
+  if (!outcome) return setMatchGames(rounds, results, matchId, [...played, winner]);
+  if (match.bestOf === 1) return setMatchGames(rounds, results, matchId, outcome === winner ? [] : [winner]);
+  return results;
+};
+
+const undoMatchGame = (rounds: Round[], results: BracketResults, matchId: string): BracketResults => {
+  const match = findMatch(rounds, matchId);
+  if (!match) return results;
+  const played = getSeriesState(match, results[matchId]).games.map(game => game.winner);
+  return setMatchGames(rounds, results, matchId, played.slice(0, -1));
+};
+
+// --- Round robin table ---
+type RoundRobinTieBreaker = 'headToHead' | 'wins';
+
+interface RoundRobinRow {
+  className: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  points: number;
+  rank: number;
+  decidedBy: RoundRobinTieBreaker | null; // tie-breaker that separated this class from a class on equal points
+}
+
+const DEFAULT_ROUND_ROBIN_POINTS: RoundRobinPoints = { win: 3, draw: 1, loss: 0 };
+const ROUND_ROBIN_TIE_BREAKERS: RoundRobinTieBreaker[] = ['headToHead', 'wins'];
+const ROUND_ROBIN_TIE_BREAKER_LABELS: Record<RoundRobinTieBreaker, string> = {
+  headToHead: '승자승',
+  wins: '다승',
+};
+
+// W/D/L table of one grade's round robin. Equal points are broken by the matches among the
+// classes on those points, then by number of wins; classes still level share a rank.
+const computeRoundRobinTable = (rounds: Round[], results: BracketResults, pointsPerResult: RoundRobinPoints = DEFAULT_ROUND_ROBIN_POINTS): RoundRobinRow[] => {
+  const rows: { [className: string]: RoundRobinRow } = {};
+  const decided: { teams: string[]; winner: string | null }[] = [];
+  rounds.forEach(round => {
+    round.matches.forEach(match => {
+      // Round-robin teams are always class names
+      const teams = match.teams.filter((team): team is string => typeof team === 'string');
+      teams.forEach(className => {
+        if (!rows[className]) rows[className] = { className, played: 0, won: 0, drawn: 0, lost: 0, points: 0, rank: 1, decidedBy: null };
+      });
+      const series = getSeriesState(match, countedGames(teams, results[match.id], true));
+      if (series.winner || series.drawn) decided.push({ teams, winner: series.winner });
+    });
+  });
+
+  const pointsFor = (className: string, winner: string | null): number =>
+    winner === null ? pointsPerResult.draw : winner === className ? pointsPerResult.win : pointsPerResult.loss;
+
+  decided.forEach(({ teams, winner }) => {
+    teams.forEach(className => {
+      const row = rows[className];
+      row.played += 1;
+      if (winner === null) {
+        row.drawn += 1;
+      } else if (winner === className) {
+        row.won += 1;
+      } else {
+        row.lost += 1;
+      }
+      row.points += pointsFor(className, winner);
+    });
+  });
+
+  // Classes level on points are split as a group: 승자승 uses the points from the matches among
+  // that group only, then 다승 splits what is left. Classes still level share a rank.
+  const splitTies = (group: string[], tieBreakers: RoundRobinTieBreaker[], decidedBy: RoundRobinTieBreaker | null): { classNames: string[]; decidedBy: RoundRobinTieBreaker | null }[] => {
+    if (group.length === 1 || tieBreakers.length === 0) return [{ classNames: [...group].sort((a, b) => a.localeCompare(b)), decidedBy }];
+    const [tieBreaker, ...rest] = tieBreakers;
+    const scoreOf = (className: string): number => {
+      if (tieBreaker === 'wins') return rows[className].won;
+      return decided
+        .filter(({ teams }) => teams.every(team => group.includes(team)))
+        .reduce((sum, { teams, winner }) => sum + (teams.includes(className) ? pointsFor(className, winner) : 0), 0);
+    };
+    const buckets = groupByScore(group, scoreOf);
+    if (buckets.length === 1) return splitTies(group, rest, decidedBy);
+    return buckets.flatMap(bucket => splitTies(bucket, rest, tieBreaker));
+  };
+
+  const table: RoundRobinRow[] = [];
+  groupByScore(Object.keys(rows), className => rows[className].points).forEach(group => {
+    splitTies(group, ROUND_ROBIN_TIE_BREAKERS, null).forEach(({ classNames, decidedBy }) => {
+      const rank = table.length + 1;
+      classNames.forEach(className => table.push({ ...rows[className], rank, decidedBy }));
+    });
+  });
+  return table;
+};
+
+// Placements for a grade once its bracket is complete. A round robin ranks by its table; an
+// elimination bracket ranks the champion 1st, then classes by the round they went out in,
+// sharing the place with the others from that round.
+const getBracketPlacements = (bracket: GradeBracket, results: BracketResults, config?: BracketConfig): Placements => {
+  const { rounds } = bracket;
+  const outcomes = resolveBracket(bracket, results);
+  const placements: Placements = {};
+
+  if (bracket.format === 'roundRobin') {
+    const complete = rounds.every(round => round.matches.every(match => outcomes[match.id].winner || outcomes[match.id].series.drawn));
+    if (!complete) return {};
+    computeRoundRobinTable(rounds, results, config?.roundRobinPoints).forEach(row => {
+      placements[row.className] = row.rank;
+    });
+    return placements;
+  }
+
+  const finalMatch = rounds[rounds.length - 1]?.matches[0];
+  const champion = finalMatch && outcomes[finalMatch.id].winner;
+  if (!champion) return {};
+
+  // A class's last loss is the one that eliminated it; rounds are in playing order
+  const exitRound: { [className: string]: number } = {};
+  rounds.forEach((round, roundIndex) => {
+    round.matches.forEach(match => {
+      const { loser } = outcomes[match.id];
+      if (loser) exitRound[loser] = roundIndex;
+    });
+  });
+  exitRound[champion] = rounds.length;
+
+  Object.keys(exitRound).forEach(className => {
+    placements[className] = 1 + Object.keys(exitRound).filter(other => exitRound[other] > exitRound[className]).length;
+  });
+  return placements;
 };
 
-// --- Helper Functions ---
-const getCurrentTime = () => {
-  const now = new Date();
-  const hours = String(now.getHours()).padStart(2, '0');
-  const minutes = String(now.getMinutes()).padStart(2, '0');
-  return `${hours}:${minutes}`;
+// Standings seeding looks only at events that end before the bracket event starts, so the
+// draw stays fixed while the bracket is being played.
+const rankClassesForBracket = (
+  events: SportsEvent[],
+  bracketEvent: SportsEventData,
+  cheeringScores: Scores,
+  adjustments: ScoreAdjustment[],
+  config: StandingsConfig,
+): Record<string, string[]> => {
+  const earlier = events.filter(event => event.endTime <= bracketEvent.startTime);
+  const earlierAdjustments = adjustments.filter(({ eventId }) => eventId === undefined || earlier.some(event => event.id === eventId));
+  const standings = computeStandings(earlier, cheeringScores, earlierAdjustments, 'total', config);
+  const ranked: Record<string, string[]> = {};
+  Object.keys(standings).forEach(grade => {
+    ranked[grade] = standings[grade].map(row => row.className);
+  });
+  return ranked;
 };
+// --- END Tournament Bracket Types and Generator ---
 
-const getEventStatus = (startTime: string, endTime: string, currentTime: string, manualStatus?: ManualStatus): Status => {
-  // Manual override from Google Sheet takes precedence
-  if (manualStatus === '활성') return '진행중';
-  if (manualStatus === '종료') return '종료';
-  if (manualStatus === '예정') return '예정';
+// --- Roster Check ---
+// Problems in the `players` data to fix before the day: a name listed twice in one class, a
+// student placed in two events that run at the same time, runner lists that do not match the
+// mission legs, and tug-of-war teams that meet with different numbers of players (rule 6: both
+// sides must field the same numbers).
+type RosterIssueKind = 'duplicate' | 'conflict' | 'runnerCount' | 'teamSize';
 
-  // Fallback to time-based logic
-  if (currentTime < startTime) return '예정';
-  if (currentTime >= startTime && currentTime < endTime) return '진행중';
-  return '종료';
+interface RosterIssue {
+  kind: RosterIssueKind;
+  eventId: number;
+  message: string;
+}
+
+const ROSTER_ISSUE_KINDS: RosterIssueKind[] = ['duplicate', 'conflict', 'runnerCount', 'teamSize'];
+const ROSTER_ISSUE_LABELS: { [kind in RosterIssueKind]: string } = {
+  duplicate: '한 반 명단에 중복된 이름',
+  conflict: '시간이 겹치는 경기에 함께 배정',
+  runnerCount: '미션 주자 수 불일치',
+  teamSize: '줄다리기 맞대결 인원 불일치',
 };
 
-// --- Components ---
+// Reserves may differ between two tug-of-war teams; the players on the rope may not
+const TUG_OF_WAR_MATCHED_CATEGORIES: (keyof TugOfWarPlayerClass)[] = ['women', 'men_vanguard', 'men_rearguard'];
 
-// --- Tournament Bracket Types and Data ---
-type TeamSpec = string | { winnerOf: string };
-interface Match {
-  id: string;
-  teams: [TeamSpec, TeamSpec];
+const checkRosters = (
+  events: SportsEvent[],
+  getBracketData: (event: SportsEvent) => BracketData,
+  bracketResults: { [eventId: number]: BracketResults } = {},
+): RosterIssue[] => {
+  const issues: RosterIssue[] = [];
+  const entriesByStudent: { [key: string]: RosterEntry[] } = {};
+  buildRosterIndex(events).forEach(entry => {
+    if (!entry.className || !entry.name.trim()) return; // group members are not tied to a class
+    const key = `${entry.className}|${entry.name.trim()}`;
+    if (!entriesByStudent[key]) entriesByStudent[key] = [];
+    entriesByStudent[key].push(entry);
+  });
+
+  Object.keys(entriesByStudent).forEach(key => {
+    const entries = entriesByStudent[key];
+    const [className, name] = key.split('|');
+    const checkedEvents = new Set<number>();
+    entries.forEach((entry, index) => {
+      const sameEvent = entries.filter(other => other.event.id === entry.event.id);
+      if (sameEvent.length > 1 && !checkedEvents.has(entry.event.id)) {
+        checkedEvents.add(entry.event.id);
+        issues.push({ kind: 'duplicate', eventId: entry.event.id, message: `${className} ${name}: ${sameEvent.map(other => other.role).join(', ')}에 모두 있습니다.` });
+      }
+      entries.slice(index + 1).forEach(other => {
+        const overlaps = other.event.id !== entry.event.id && (other.event.date || '') === (entry.event.date || '')
+          && other.startTime < entry.endTime && entry.startTime < other.endTime;
+        if (overlaps) {
+          issues.push({
+            kind: 'conflict',
+            eventId: entry.event.id,
+            message: `${className} ${name}: ${entry.role} (${entry.startTime}-${entry.endTime})와 ${other.event.title} ${other.role} (${other.startTime}-${other.endTime})의 시간이 겹칩니다.`,
+          });
+        }
+      });
+    });
+  });
+
+  events.forEach(event => {
+    if (!event.players) return;
+    Object.keys(event.players).sort().forEach(grade => {
+      const legs = event.missions?.[grade] && Object.keys(event.missions[grade]).length;
+      if (!legs) return;
+      Object.keys(event.players![grade]).sort((a, b) => a.localeCompare(b)).forEach(className => {
+        const players = event.players![grade][className];
+        if (Array.isArray(players) && players.length !== legs) {
+          issues.push({ kind: 'runnerCount', eventId: event.id, message: `${className}: 주자 ${players.length}명 (미션 주자 ${legs}명 필요)` });
+        }
+      });
+    });
+  });
+
+  events.forEach(event => {
+    if (!event.bracket || !event.players) return;
+    const brackets = getBracketData(event);
+    const checkedPairs = new Set<string>();
+    Object.keys(brackets).forEach(grade => {
+      const outcomes = resolveBracket(brackets[grade], bracketResults[event.id] || EMPTY_BRACKET_RESULTS);
+      brackets[grade].rounds.forEach(round => round.matches.forEach(match => {
+        const [a, b] = outcomes[match.id].teams;
+        if (!a || !b) return;
+        const pairKey = [a, b].sort().join('|');
+        const teamA = event.players![grade]?.[a];
+        const teamB = event.players![grade]?.[b];
+        if (checkedPairs.has(pairKey) || !teamA || !teamB || Array.isArray(teamA) || Array.isArray(teamB)) return;
+        checkedPairs.add(pairKey);
+        const mismatches = TUG_OF_WAR_MATCHED_CATEGORIES
+          .filter(category => teamA[category].length !== teamB[category].length)
+          .map(category => `${TUG_OF_WAR_CATEGORY_LABELS[category]} ${teamA[category].length}명 vs ${teamB[category].length}명`);
+        if (mismatches.length > 0) {
+          issues.push({ kind: 'teamSize', eventId: event.id, message: `${round.title} ${a} vs ${b}: ${mismatches.join(', ')}` });
+        }
+      }));
+    });
+  });
+
+  return ROSTER_ISSUE_KINDS.flatMap(kind => issues.filter(issue => issue.kind === kind));
+};
+// --- END Roster Check ---
+
+// --- Tug-of-War Lineups ---
+// Rule 6: both teams pull with the same numbers, based on the smaller team. Each group (women,
+// men vanguard, men rearguard) is evened out on its own: the larger team's last-listed players
+// sit out. With `useReserves`, the smaller team first fills a men's gap from its reserves, in
+// order; reserves are boys, and one already listed in a group is not brought in again.
+type LineupSlotState = 'plays' | 'sitsOut' | 'reserveIn';
+
+interface LineupSlot {
+  name: string;
+  state: LineupSlotState;
 }
-interface Round {
-  title: string;
-  matches: Match[];
+
+interface GroupLineup {
+  category: keyof TugOfWarPlayerClass;
+  rosterCounts: [number, number];
+  count: number; // players per team on the rope
+  teams: [LineupSlot[], LineupSlot[]];
 }
-interface BracketData {
-  [grade: string]: { rounds: Round[] };
+
+interface MatchLineup {
+  groups: GroupLineup[];
+  bench: [string[], string[]]; // reserves that did not come in
 }
 
-const bracketData: BracketData = {
-  '1': { // 5 teams
-    rounds: [
-      { title: '1라운드', matches: [{ id: 'g1-r1-m1', teams: ['3반', '2반'] }, { id: 'g1-r1-m2', teams: ['4반', '1반'] }] },
-      { title: '준결승', matches: [{ id: 'g1-r2-m1', teams: [{ winnerOf: 'g1-r1-m1' }, '5반'] }] },
-      { title: '결승', matches: [{ id: 'g1-r3-m1', teams: [{ winnerOf: 'g1-r1-m2' }, { winnerOf: 'g1-r2-m1' }] }] },
-    ],
-  },
-  '2': { // 4 teams
-    rounds: [
-      { title: '준결승', matches: [{ id: 'g2-r1-m1', teams: ['1반', '4반'] }, { id: 'g2-r1-m2', teams: ['2반', '3반'] }] },
-      { title: '결승', matches: [{ id: 'g2-r2-m1', teams: [{ winnerOf: 'g2-r1-m1' }, { winnerOf: 'g2-r1-m2' }] }] },
-    ],
-  },
-  '3': { // 5 teams
-    rounds: [
-      { title: '1라운드', matches: [{ id: 'g3-r1-m1', teams: ['3반', '2반'] }, { id: 'g3-r1-m2', teams: ['4반', '5반'] }] },
-      { title: '준결승', matches: [{ id: 'g3-r2-m1', teams: [{ winnerOf: 'g3-r1-m2' }, '1반'] }] },
-      { title: '결승', matches: [{ id: 'g3-r3-m1', teams: [{ winnerOf: 'g3-r1-m1' }, { winnerOf: 'g3-r2-m1' }] }] },
-    ],
-  },
+const TUG_OF_WAR_RESERVE_CATEGORIES: (keyof TugOfWarPlayerClass)[] = ['men_vanguard', 'men_rearguard'];
+
+const equalizeTugOfWarLineups = (teamA: TugOfWarPlayerClass, teamB: TugOfWarPlayerClass, useReserves = false): MatchLineup => {
+  const rosters = [teamA, teamB];
+  const availableReserves = (team: TugOfWarPlayerClass) =>
+    team.reserve.filter(name => !TUG_OF_WAR_MATCHED_CATEGORIES.some(category => team[category].includes(name)));
+  const bench: [string[], string[]] = [availableReserves(teamA), availableReserves(teamB)];
+  const groups = TUG_OF_WAR_MATCHED_CATEGORIES.map(category => {
+    const rosterCounts: [number, number] = [teamA[category].length, teamB[category].length];
+    const shorter = rosterCounts[0] < rosterCounts[1] ? 0 : rosterCounts[1] < rosterCounts[0] ? 1 : null;
+    const reservesIn = shorter !== null && useReserves && TUG_OF_WAR_RESERVE_CATEGORIES.includes(category)
+      ? bench[shorter].splice(0, rosterCounts[1 - shorter] - rosterCounts[shorter])
+      : [];
+    const count = Math.min(...rosterCounts) + reservesIn.length;
+    const teams = rosters.map((roster, index) => [
+      ...roster[category].map((name, position): LineupSlot => ({ name, state: position < count ? 'plays' : 'sitsOut' })),
+      ...(index === shorter ? reservesIn.map((name): LineupSlot => ({ name, state: 'reserveIn' })) : []),
+    ]) as [LineupSlot[], LineupSlot[]];
+    return { category, rosterCounts, count, teams };
+  });
+  return { groups, bench };
+};
+// --- END Tug-of-War Lineups ---
+
+// --- Mission Draw ---
+// Which class gets which mission in each runner slot of 미션 달리기. Per grade, a generator
+// seeded with the draw's seed mixed with the grade number shuffles each slot's missions in slot
+// order, and the grade's classes, sorted by name, take them in turn. Re-running a seed
+// always gives the same draw.
+type MissionAssignments = { [grade: string]: { [runner: string]: { [className: string]: string } } };
+
+// Seeds stay within 9 digits so they are easy to read out and to type back in
+const MAX_DRAW_SEED = 1_000_000_000;
+const createDrawSeed = (): number => Math.floor(Math.random() * MAX_DRAW_SEED);
+
+// Hashes the seed together with the grade (murmur3's finalizer), so grade 2 of one seed is
+// not grade 1 of the next seed
+const mixSeed = (seed: number, salt: number): number => {
+  let hash = (seed ^ Math.imul(salt, 0x9E3779B1)) >>> 0;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85EBCA6B);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xC2B2AE35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+};
+
+// Fingerprint (FNV-1a) of everything a draw depends on besides the seed: the classes and each
+// grade's missions in slot order. Published with the seed so a later catalog change is noticed.
+const hashMissionDrawInputs = (event: SportsEventData): string => {
+  const missions = event.missions || {};
+  const text = JSON.stringify([
+    Object.keys(event.scores || {}).sort((a, b) => a.localeCompare(b)),
+    Object.keys(missions).sort().map(grade => [grade, Object.keys(missions[grade]).map(runner => [runner, missions[grade][runner]])]),
+  ]);
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
 };
 
-const placeholderMap: Record<string, string> = {
-    'g1-r1-m1': '(1R 1G 승리팀)', 'g1-r1-m2': '(1R 2G 승리팀)', 'g1-r2-m1': '(준결승 승리팀)',
-    'g2-r1-m1': '(준결승 1G 승리팀)', 'g2-r1-m2': '(준결승 2G 승리팀)',
-    'g3-r1-m1': '(1R 1G 승리팀)', 'g3-r1-m2': '(1R 2G 승리팀)', 'g3-r2-m1': '(준결승 승리팀)',
+const drawMissions = (event: SportsEventData, seed: number): MissionAssignments => {
+  const classesByGrade: Record<string, string[]> = {};
+  Object.keys(event.scores || {}).forEach(className => {
+    const grade = className.split('-')[0];
+    if (!classesByGrade[grade]) classesByGrade[grade] = [];
+    classesByGrade[grade].push(className);
+  });
+  const assignments: MissionAssignments = {};
+  Object.keys(event.missions || {}).forEach(grade => {
+    const missionsForGrade = event.missions![grade];
+    const classNames = (classesByGrade[grade] || []).sort((a, b) => a.localeCompare(b));
+    const random = createSeededRandom(mixSeed(seed, Number(grade)));
+    assignments[grade] = {};
+    Object.keys(missionsForGrade).forEach(runner => {
+      const shuffled = [...missionsForGrade[runner]];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      // With fewer missions than classes, the classes past the end go without one
+      assignments[grade][runner] = {};
+      classNames.slice(0, shuffled.length).forEach((className, index) => {
+        assignments[grade][runner][className] = shuffled[index];
+      });
+    });
+  });
+  return assignments;
 };
+// --- END Mission Draw ---
 
 
 const TournamentBracketModal: React.FC<{ 
+    event: SportsEvent;
+    rankedClassesByGrade: Record<string, string[]>;
+    officialResults: BracketResults;
+    // Present only for a signed-in host on the relay; spectators see official results read-only
+    onPublishMatch?: (matchId: string, games: string[], previous: string[]) => Promise<void>;
     onClose: () => void;
-}> = ({ onClose }) => {
-    const [activeGrade, setActiveGrade] = useState('2');
-    // All winners are now managed locally in this component's state
-    const [winners, setWinners] = useState<{ [matchId: string]: string }>({});
-
-    const handleMatchWin = useCallback((matchId: string, winner: string, grade: string) => {
-        setWinners(currentWinners => {
-            const newWinners = { ...currentWinners };
-
-            // If the same winner is clicked again, deselect it. Otherwise, set the new winner.
-            if (newWinners[matchId] === winner) {
-                delete newWinners[matchId];
-            } else {
-                newWinners[matchId] = winner;
+}> = ({ event, rankedClassesByGrade, officialResults, onPublishMatch, onClose }) => {
+    const bracketData = useMemo(() => buildBracketData(event, rankedClassesByGrade), [event, rankedClassesByGrade]);
+    const grades = Object.keys(bracketData);
+    const [activeGrade, setActiveGrade] = useState(() => grades[0] || '1');
+    const [mode, setMode] = useState<'official' | 'simulation'>('official');
+    // Simulated results stay on this device and never touch the official results
+    const [simulatedResults, setSimulatedResults] = useState<BracketResults>({});
+    const [isPublishing, setIsPublishing] = useState(false);
+    const [publishError, setPublishError] = useState<string | null>(null);
+    const [lineupMatch, setLineupMatch] = useState<{ title: string; teams: [TugOfWarPlayerClass, TugOfWarPlayerClass]; classNames: [string, string] } | null>(null);
+
+    const results = mode === 'official' ? officialResults : simulatedResults;
+    const canPick = mode === 'simulation' || !!onPublishMatch;
+
+    const updateResults = useCallback(async (grade: string, update: (rounds: Round[], current: BracketResults) => BracketResults) => {
+        const gradeBracket = bracketData[grade];
+        if (!gradeBracket) return;
+        if (mode === 'simulation') {
+            setSimulatedResults(current => update(gradeBracket.rounds, current));
+            return;
+        }
+        if (!onPublishMatch) return;
+        const next = update(gradeBracket.rounds, officialResults);
+        // One write per match that changed: the picked match, then any later match it cleared
+        const changedIds = gradeBracket.rounds
+            .flatMap(round => round.matches.map(match => match.id))
+            .filter(matchId => (officialResults[matchId] || []).join('\n') !== (next[matchId] || []).join('\n'));
+        setIsPublishing(true);
+        setPublishError(null);
+        try {
+            for (const matchId of changedIds) {
+                await onPublishMatch(matchId, next[matchId] || [], officialResults[matchId] || []);
             }
+        } catch (e) {
+            setPublishError(e instanceof Error ? e.message : '결과를 저장하지 못했습니다.');
+        } finally {
+            setIsPublishing(false);
+        }
+    }, [bracketData, mode, officialResults, onPublishMatch]);
 
-            // When a winner is chosen or deselected, we must clear subsequent matches
-            const clearDependents = (mId: string) => {
-                const gradeBracket = bracketData[grade];
-                if (!gradeBracket) return;
+    const handleMatchWin = (matchId: string, winner: string, grade: string) => {
+        updateResults(grade, (rounds, current) => recordMatchGame(rounds, current, matchId, winner));
+    };
 
-                gradeBracket.rounds.forEach(round => {
-                    round.matches.forEach(match => {
-                        const dependsOnThisMatch = match.teams.some(
-                            team => typeof team === 'object' && team.winnerOf === mId
-                        );
-                        if (dependsOnThisMatch && newWinners[match.id]) {
-                            const dependentMatchId = match.id;
-                            delete newWinners[dependentMatchId];
-                            clearDependents(dependentMatchId);
-                        }
-                    });
-                });
-            };
-            
-            clearDependents(matchId);
-            return newWinners;
-        });
-    }, []);
+    const handleUndoGame = (matchId: string, grade: string) => {
+        updateResults(grade, (rounds, current) => undoMatchGame(rounds, current, matchId));
+    };
+
+    const handleModeChange = (nextMode: 'official' | 'simulation') => {
+        // A simulation starts from the matches that have already been played
+        if (nextMode === 'simulation') setSimulatedResults({ ...officialResults });
+        setPublishError(null);
+        setMode(nextMode);
+    };
 
     const handleResetBracket = useCallback(() => {
-        setWinners(currentWinners => {
-            const newWinners = { ...currentWinners };
+        setSimulatedResults(currentResults => {
+            const newResults = { ...currentResults };
             const gradeBracket = bracketData[activeGrade];
-            if (!gradeBracket) return currentWinners;
+            if (!gradeBracket) return currentResults;
 
-            // Get all match IDs for the current grade and remove them from the winners object
+            // Get all match IDs for the current grade and remove them from the results object
             const matchIdsForGrade = gradeBracket.rounds.flatMap(r => r.matches.map(m => m.id));
             for (const id of matchIdsForGrade) {
-                delete newWinners[id];
+                delete newResults[id];
             }
 
-            return newWinners;
+            return newResults;
         });
-    }, [activeGrade]);
+    }, [activeGrade, bracketData]);
+
+    const renderRoundRobinTable = (gradeBracket: GradeBracket) => {
+        const table = computeRoundRobinTable(gradeBracket.rounds, results, event.bracket?.roundRobinPoints);
+        const points = event.bracket?.roundRobinPoints || DEFAULT_ROUND_ROBIN_POINTS;
+        return (
+            <div className="round-robin-standings">
+                <table className="round-robin-table">
+                    <thead>
+                        <tr>
+                            <th>순위</th>
+                            <th>반</th>
+                            <th>경기</th>
+                            <th>승</th>
+                            <th>무</th>
+                            <th>패</th>
+                            <th>승점</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {table.map(row => (
+                            <tr key={row.className}>
+                                <td>{row.rank}</td>
+                                <td>
+                                    {formatTeamName(row.className)}
+                                    {row.decidedBy && <small className="standings-tie-note">동점 · {ROUND_ROBIN_TIE_BREAKER_LABELS[row.decidedBy]}</small>}
+                                </td>
+                                <td>{row.played}</td>
+                                <td>{row.won}</td>
+                                <td>{row.drawn}</td>
+                                <td>{row.lost}</td>
+                                <td><strong>{row.points}</strong></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="round-robin-rule">
+                    승 {points.win}점 · 무 {points.draw}점 · 패 {points.loss}점 / 동점 시 {ROUND_ROBIN_TIE_BREAKERS.map(tieBreaker => ROUND_ROBIN_TIE_BREAKER_LABELS[tieBreaker]).join(' → ')}
+                </p>
+            </div>
+        );
+    };
 
     const renderBracket = (grade: string) => {
         const gradeBracket = bracketData[grade];
         if (!gradeBracket) return null;
+        const outcomes = resolveBracket(gradeBracket, results);
+        const isRoundRobin = gradeBracket.format === 'roundRobin';
 
-        const getTeamDisplay = (teamSpec: TeamSpec): string => {
-            if (typeof teamSpec === 'string') return teamSpec;
-            return winners[teamSpec.winnerOf] || (placeholderMap[teamSpec.winnerOf] || '(승리팀)');
-        };
-
-        const areTeamsReady = (match: Match): boolean => {
-            return match.teams.every(teamSpec => {
-                if (typeof teamSpec === 'string') return true;
-                return !!winners[teamSpec.winnerOf];
-            });
+        const getTeamDisplay = (teamSpec: TeamSpec, className: string | null): string => {
+            if (className) return formatTeamName(className);
+            return typeof teamSpec === 'string' ? teamSpec : getPlaceholderLabel(gradeBracket.rounds, teamSpec);
         };
 
         return (
-            <div className="vertical-bracket">
+            <div className={`vertical-bracket ${isRoundRobin ? 'round-robin' : ''}`}>
+                {isRoundRobin && renderRoundRobinTable(gradeBracket)}
                 {gradeBracket.rounds.map((round) => (
                     <div key={round.title} className="bracket-round">
                         <h4 className="bracket-round-title">{round.title}</h4>
                         <div className="bracket-matches">
                             {round.matches.map((match) => {
-                                const team1Name = getTeamDisplay(match.teams[0]);
-                                const team2Name = getTeamDisplay(match.teams[1]);
-
-                                const matchWinner = winners[match.id];
-                                const isReady = areTeamsReady(match);
+                                const { teams: [team1, team2], series } = outcomes[match.id];
+                                const matchWinner = series.winner;
+                                const isReady = !!team1 && !!team2;
                                 const isFinalRound = round.title === '결승';
+                                // A decided series is corrected with the undo button, not by picking again
+                                const isLocked = match.bestOf > 1 && !!matchWinner;
+                                const roster1 = team1 ? event.players?.[grade]?.[team1] : undefined;
+                                const roster2 = team2 ? event.players?.[grade]?.[team2] : undefined;
+                                const hasLineups = !!roster1 && !!roster2 && !Array.isArray(roster1) && !Array.isArray(roster2);
 
                                 return (
                                     <div key={match.id} className={`match-connector-group ${isFinalRound ? 'final' : ''}`}>
                                         <div className="match-card">
                                             <button
-                                                className={`team ${matchWinner === team1Name ? 'winner' : ''} ${matchWinner && matchWinner !== team1Name ? 'loser' : ''}`}
-                                                onClick={() => handleMatchWin(match.id, team1Name, grade)}
-                                                disabled={!isReady}
+                                                className={`team ${matchWinner === team1 ? 'winner' : ''} ${matchWinner && matchWinner !== team1 ? 'loser' : ''}`}
+                                                onClick={() => team1 && handleMatchWin(match.id, team1, grade)}
+                                                disabled={!isReady || !canPick || isPublishing || isLocked}
                                             >
-                                                {team1Name}
+                                                {getTeamDisplay(match.teams[0], team1)}
                                             </button>
                                             <div className="vs">vs</div>
                                             <button
-                                                className={`team ${matchWinner === team2Name ? 'winner' : ''} ${matchWinner && matchWinner !== team2Name ? 'loser' : ''}`}
-                                                onClick={() => handleMatchWin(match.id, team2Name, grade)}
-                                                disabled={!isReady}
+                                                className={`team ${matchWinner === team2 ? 'winner' : ''} ${matchWinner && matchWinner !== team2 ? 'loser' : ''}`}
+                                                onClick={() => team2 && handleMatchWin(match.id, team2, grade)}
+                                                disabled={!isReady || !canPick || isPublishing || isLocked}
                                             >
-                                                {team2Name}
+                                                {getTeamDisplay(match.teams[1], team2)}
                                             </button>
+                                            {isRoundRobin && (
+                                                <button
+                                                    className={`draw-button ${series.drawn ? 'selected' : ''}`}
+                                                    onClick={() => handleMatchWin(match.id, BRACKET_DRAW, grade)}
+                                                    disabled={!canPick || isPublishing}
+                                                    aria-pressed={series.drawn}
+                                                >
+                                                    🤝 무승부
+                                                </button>
+                                            )}
+                                            {hasLineups && (
+                                                <button
+                                                    className="lineup-button"
+                                                    onClick={() => setLineupMatch({
+                                                        title: `${grade}학년 ${round.title}`,
+                                                        teams: [roster1 as TugOfWarPlayerClass, roster2 as TugOfWarPlayerClass],
+                                                        classNames: [team1!, team2!],
+                                                    })}
+                                                >
+                                                    👥 출전 명단
+                                                </button>
+                                            )}
+                                            {match.bestOf > 1 && (
+                                                <div className="series-progress">
+                                                    <div className="series-summary">
+                                                        <span className="series-format">{match.bestOf}판 {Math.ceil(match.bestOf / 2)}선승</span>
+                                                        <span className="series-score">
+                                                            {(team1 && series.wins[team1]) || 0} : {(team2 && series.wins[team2]) || 0}
+                                                        </span>
+                                                    </div>
+                                                    {series.games.length > 0 && (
+                                                        <ol className="series-games">
+                                                            {series.games.map((game, index) => (
+                                                                <li key={index} className={game.decider ? 'decider' : ''}>
+                                                                    {game.decider ? '결정전' : `${index + 1}판`} {game.winner === BRACKET_DRAW ? '무승부' : `${formatTeamName(game.winner)} 승`}
+                                                                </li>
+                                                            ))}
+                                                        </ol>
+                                                    )}
+                                                    {series.deciderNext && <p className="series-decider-note">⚖️ 동점! 다음 판은 결정전입니다.</p>}
+                                                    {canPick && series.games.length > 0 && (
+                                                        <button className="series-undo-button" onClick={() => handleUndoGame(match.id, grade)} disabled={isPublishing}>
+                                                            ↩ 마지막 판 취소
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 );
@@ -541,31 +3600,138 @@ const TournamentBracketModal: React.FC<{
         );
     };
 
+    return (
+        <>
+            <div className="modal-overlay" onClick={onClose}>
+                <div className="modal-content tournament-modal" onClick={(e) => e.stopPropagation()}>
+                    <div className="modal-header">
+                        <h3>⚔️ 학년별 {event.title} {BRACKET_FORMAT_LABELS[event.bracket?.format || 'single']}{mode === 'simulation' ? ' (시뮬레이션)' : ''}</h3>
+                        <button onClick={onClose} className="modal-close-button" aria-label="닫기">&times;</button>
+                    </div>
+                    <div className="modal-body">
+                        <div className="tabs sub-tabs bracket-mode-tabs">
+                            <button className={`tab-button ${mode === 'official' ? 'active' : ''}`} onClick={() => handleModeChange('official')} aria-pressed={mode === 'official'}>공식 결과</button>
+                            <button className={`tab-button ${mode === 'simulation' ? 'active' : ''}`} onClick={() => handleModeChange('simulation')} aria-pressed={mode === 'simulation'}>나만의 시뮬레이션</button>
+                        </div>
+                        <p className="bracket-description">
+                            {mode === 'simulation' ? (
+                                <>
+                                    이 대진표는 셀프 체크 시스템입니다.
+                                    <br />
+                                    직접 버튼을 눌러 대진표를 시뮬레이션 해보세요!
+                                </>
+                            ) : onPublishMatch ? (
+                                '🔐 호스트: 이긴 반을 누르면 모든 화면에 공식 결과로 반영됩니다.'
+                            ) : (
+                                '진행 요원이 입력한 공식 경기 결과입니다.'
+                            )}
+                            {event.bracket?.autoScore && mode === 'official' && (
+                                <>
+                                    <br />
+                                    결승까지 끝난 학년은 대진 결과에 따라 순위 점수가 자동으로 반영됩니다.
+                                </>
+                            )}
+                        </p>
+                        {publishError && <p className="host-message error">{publishError}</p>}
+                        <div className="tabs bracket-tabs">
+                            {grades.map(grade => (
+                                <button key={grade} className={`tab-button ${activeGrade === grade ? 'active' : ''}`} onClick={() => setActiveGrade(grade)} aria-pressed={activeGrade === grade}>{grade}학년</button>
+                            ))}
+                        </div>
+                        <div className="bracket-content-wrapper">
+                            {renderBracket(activeGrade)}
+                        </div>
+                        {mode === 'simulation' && (
+                            <div className="bracket-controls">
+                                <button className="bracket-control-button" title="현재 학년 대진표 초기화" aria-label="리셋" onClick={handleResetBracket}>
+                                    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="23 4 23 10 17 10"></polyline><path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"></path></svg>
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+            {lineupMatch && (
+                <TugOfWarLineupModal
+                    title={lineupMatch.title}
+                    classNames={lineupMatch.classNames}
+                    teams={lineupMatch.teams}
+                    substitutions={event.substitutions}
+                    onClose={() => setLineupMatch(null)}
+                />
+            )}
+        </>
+    );
+};
+
+// Referee view of one pull: both classes' groups side by side, evened out under rule 6
+const TugOfWarLineupModal: React.FC<{
+    title: string;
+    classNames: [string, string];
+    teams: [TugOfWarPlayerClass, TugOfWarPlayerClass];
+    substitutions?: Substitution[];
+    onClose: () => void;
+}> = ({ title, classNames, teams, substitutions, onClose }) => {
+    const [useReserves, setUseReserves] = useState(false);
+    const lineup = useMemo(() => equalizeTugOfWarLineups(teams[0], teams[1], useReserves), [teams, useReserves]);
+    const total = lineup.groups.reduce((sum, group) => sum + group.count, 0);
+
     return (
         <div className="modal-overlay" onClick={onClose}>
-            <div className="modal-content tournament-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-content lineup-modal" onClick={(e) => e.stopPropagation()}>
                 <div className="modal-header">
-                    <h3>⚔️ 학년별 줄다리기 대진표 (시뮬레이션)</h3>
+                    <h3>👥 {title} {formatTeamName(classNames[0])} vs {formatTeamName(classNames[1])} 출전 명단</h3>
                     <button onClick={onClose} className="modal-close-button" aria-label="닫기">&times;</button>
                 </div>
                 <div className="modal-body">
-                    <p className="bracket-description">
-                        이 대진표는 셀프 체크 시스템입니다.
-                        <br />
-                        직접 버튼을 눌러 대진표를 시뮬레이션 해보세요!
+                    <p className="lineup-rule">
+                        양 팀 인원은 같아야 하며, 인원이 적은 팀 기준으로 맞춥니다. 팀당 <strong>{total}명</strong>이 출전합니다.
+                        많은 쪽은 명단 뒤쪽 선수부터 대기하며, 바꿀 선수는 심판이 정합니다.
                     </p>
-                    <div className="tabs bracket-tabs">
-                        <button className={`tab-button ${activeGrade === '1' ? 'active' : ''}`} onClick={() => setActiveGrade('1')} aria-pressed={activeGrade === '1'}>1학년</button>
-                        <button className={`tab-button ${activeGrade === '2' ? 'active' : ''}`} onClick={() => setActiveGrade('2')} aria-pressed={activeGrade === '2'}>2학년</button>
-                        <button className={`tab-button ${activeGrade === '3' ? 'active' : ''}`} onClick={() => setActiveGrade('3')} aria-pressed={activeGrade === '3'}>3학년</button>
-                    </div>
-                    <div className="bracket-content-wrapper">
-                        {renderBracket(activeGrade)}
-                    </div>
-                    <div className="bracket-controls">
-                        <button className="bracket-control-button" title="현재 학년 대진표 초기화" aria-label="리셋" onClick={handleResetBracket}>
-                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="23 4 23 10 17 10"></polyline><path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"></path></svg>
-                        </button>
+                    <label className="lineup-reserve-toggle">
+                        <input type="checkbox" checked={useReserves} onChange={(e) => setUseReserves(e.target.checked)} />
+                        부족한 쪽은 예비 선수로 먼저 채우기
+                    </label>
+                    {lineup.groups.map(group => (
+                        <div key={group.category} className="lineup-group">
+                            <h4>
+                                {TUG_OF_WAR_CATEGORY_LABELS[group.category]}
+                                <span className="lineup-counts">
+                                    명단 {group.rosterCounts[0]} : {group.rosterCounts[1]} → 출전 {group.count} : {group.count}
+                                </span>
+                            </h4>
+                            <div className="lineup-columns">
+                                {group.teams.map((slots, index) => (
+                                    <div key={classNames[index]} className="lineup-column">
+                                        <h5>{formatTeamName(classNames[index])}</h5>
+                                        <ol>
+                                            {slots.map((slot, position) => {
+                                                const substitution = findSubstitution(substitutions, classNames[index], group.category, slot.name);
+                                                return (
+                                                    <li key={position} className={`lineup-slot ${slot.state}`}>
+                                                        {slot.name}
+                                                        {substitution && <SubstitutionTag substitution={substitution} />}
+                                                        {slot.state === 'sitsOut' && <span className="lineup-tag">대기</span>}
+                                                        {slot.state === 'reserveIn' && <span className="lineup-tag">예비 투입</span>}
+                                                    </li>
+                                                );
+                                            })}
+                                        </ol>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                    <div className="lineup-group">
+                        <h4>예비</h4>
+                        <div className="lineup-columns">
+                            {lineup.bench.map((names, index) => (
+                                <div key={classNames[index]} className="lineup-column">
+                                    <h5>{formatTeamName(classNames[index])}</h5>
+                                    {names.length > 0 ? <p className="lineup-bench">{names.join(', ')}</p> : <p className="lineup-bench">없음</p>}
+                                </div>
+                            ))}
+                        </div>
                     </div>
                 </div>
             </div>
@@ -644,7 +3810,20 @@ const TeamDetailModal: React.FC<TeamDetailModalProps> = ({ onClose, title, teamN
     );
 };
 
-const MissionModal: React.FC<{ grade: string; missions: { [runner: string]: string[] }; onClose: () => void; }> = ({ grade, missions, onClose }) => {
+const MissionModal: React.FC<{
+  grade: string;
+  missions: { [runner: string]: string[] };
+  // Present once the event's mission draw is published
+  draw?: MissionDraw;
+  assignments?: { [runner: string]: { [className: string]: string } };
+  isDrawOutdated?: boolean;
+  onShowReveal?: () => void;
+  onClose: () => void;
+}> = ({ grade, missions, draw, assignments, isDrawOutdated, onShowReveal, onClose }) => {
+  const classNames = useMemo(() => Array.from(new Set(Object.keys(assignments || {}).flatMap(runner => Object.keys(assignments![runner]))))
+    .sort((a, b) => a.localeCompare(b)), [assignments]);
+  const [activeClass, setActiveClass] = useState<string | null>(null);
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal-content" onClick={(e) => e.stopPropagation()}>
@@ -653,13 +3832,51 @@ const MissionModal: React.FC<{ grade: string; missions: { [runner: string]: stri
           <button onClick={onClose} className="modal-close-button" aria-label="닫기">&times;</button>
         </div>
         <div className="modal-body">
+          {draw && assignments ? (
+            <>
+              <div className="mission-draw-info">
+                <span>🎲 추첨 번호 <strong>{draw.seed}</strong>{draw.at && ` · ${formatAdjustmentTime(draw.at)}`}</span>
+                {onShowReveal && <button className="grade-action-button" onClick={onShowReveal}>🎬 추첨 화면</button>}
+              </div>
+              {isDrawOutdated && (
+                <p className="mission-draw-outdated">⚠️ 추첨 뒤 미션 목록이나 반 구성이 바뀌어, 아래 배정이 추첨 당시와 다릅니다. 진행 선생님께 확인하세요.</p>
+              )}
+              <div className="tabs sub-tabs">
+                <button className={`tab-button ${activeClass === null ? 'active' : ''}`} onClick={() => setActiveClass(null)} aria-pressed={activeClass === null}>
+                  전체
+                </button>
+                {classNames.map(className => (
+                  <button
+                    key={className}
+                    className={`tab-button ${activeClass === className ? 'active' : ''}`}
+                    onClick={() => setActiveClass(className)}
+                    aria-pressed={activeClass === className}
+                  >
+                    {className.split('-')[1]}반
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="mission-draw-note">아직 미션 추첨 전입니다. 어느 반이 어떤 미션을 할지는 추첨 후에 공개됩니다.</p>
+          )}
           {Object.entries(missions).map(([runner, classMissions]) => (
             <div key={runner} className="runner-mission-group">
               <h4>{runner}</h4>
               <ul className="class-mission-list">
-                {classMissions.map((mission, index) => (
-                  <li key={index}>{mission}</li>
-                ))}
+                {assignments?.[runner] ? (
+                  Object.keys(assignments[runner]).sort((a, b) => a.localeCompare(b))
+                    .filter(className => activeClass === null || className === activeClass)
+                    .map(className => (
+                      <li key={className}>
+                        <strong className="mission-class">{className.split('-')[1]}반</strong> {assignments[runner][className]}
+                      </li>
+                    ))
+                ) : (
+                  classMissions.map((mission, index) => (
+                    <li key={index}>{mission}</li>
+                  ))
+                )}
               </ul>
             </div>
           ))}
@@ -669,13 +3886,101 @@ const MissionModal: React.FC<{ grade: string; missions: { [runner: string]: stri
   );
 };
 
+const MISSION_REVEAL_INTERVAL_MS = 1500;
+
+// Projector view of one grade's mission draw: the cards turn over one class at a time, slot by slot
+const MissionDrawRevealModal: React.FC<{
+  grade: string;
+  eventTitle: string;
+  draw: MissionDraw;
+  assignments: { [runner: string]: { [className: string]: string } };
+  onClose: () => void;
+}> = ({ grade, eventTitle, draw, assignments, onClose }) => {
+  const order = useMemo(() => Object.keys(assignments).flatMap(runner =>
+    Object.keys(assignments[runner]).sort((a, b) => a.localeCompare(b)).map(className => ({ runner, className }))), [assignments]);
+  const [revealedCount, setRevealedCount] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const isDone = revealedCount >= order.length;
+
+  useEffect(() => {
+    if (!isPlaying || isDone) return;
+    const timeout = setTimeout(() => setRevealedCount(count => count + 1), MISSION_REVEAL_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, isDone, revealedCount]);
+
+  const restart = () => {
+    setIsPlaying(false);
+    setRevealedCount(0);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content mission-reveal-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>🎲 {grade}학년 {eventTitle} 미션 추첨</h3>
+          <button onClick={onClose} className="modal-close-button" aria-label="닫기">&times;</button>
+        </div>
+        <div className="modal-body">
+          <p className="mission-reveal-seed">추첨 번호 {draw.seed}</p>
+          {Object.keys(assignments).map(runner => (
+            <div key={runner} className="mission-reveal-slot">
+              <h4>{runner}</h4>
+              <div className="mission-reveal-cards">
+                {Object.keys(assignments[runner]).sort((a, b) => a.localeCompare(b)).map(className => {
+                  const step = order.findIndex(item => item.runner === runner && item.className === className);
+                  const isRevealed = step < revealedCount;
+                  return (
+                    <div key={className} className={`mission-reveal-card ${isRevealed ? 'revealed' : ''} ${step === revealedCount - 1 ? 'latest' : ''}`}>
+                      <span className="mission-reveal-class">{className.split('-')[1]}반</span>
+                      <span className="mission-reveal-mission">{isRevealed ? assignments[runner][className] : '?'}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          <div className="mission-reveal-controls">
+            <button className="grade-action-button" onClick={() => setIsPlaying(playing => !playing)} disabled={isDone}>
+              {isPlaying ? '⏸ 멈춤' : '▶ 자동 공개'}
+            </button>
+            <button className="grade-action-button" onClick={() => setRevealedCount(count => count + 1)} disabled={isDone}>
+              하나 공개
+            </button>
+            <button className="grade-action-button" onClick={() => setRevealedCount(order.length)} disabled={isDone}>
+              모두 공개
+            </button>
+            <button className="grade-action-button" onClick={restart} disabled={revealedCount === 0}>
+              처음부터
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Marks a player who came in (or, in the original lineup, went out) through a substitution
+const SubstitutionTag: React.FC<{ substitution: Substitution }> = ({ substitution }) => (
+  <span
+    className="substitution-tag"
+    title={`${substitution.playerOut} → ${substitution.playerIn} · ${substitution.reason}${substitution.at ? ` · ${formatAdjustmentTime(substitution.at)}` : ''}`}
+  >
+    교체
+  </span>
+);
+
 const PlayerListModal: React.FC<{ 
   grade: string; 
   playersForGrade: { [className: string]: PlayerData }; 
   onClose: () => void;
   eventTitle: string; 
-}> = ({ grade, playersForGrade, onClose, eventTitle }) => {
-  const isRunnerEvent = eventTitle === '미션 달리기' || eventTitle === '계주';
+  substitutions?: Substitution[];
+  originalPlayersForGrade?: { [className: string]: PlayerData };
+}> = ({ grade, playersForGrade, onClose, eventTitle, substitutions, originalPlayersForGrade }) => {
+  const isRunnerEvent = RUNNER_EVENT_TITLES.includes(eventTitle);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const shownPlayers = showOriginal && originalPlayersForGrade ? originalPlayersForGrade : playersForGrade;
+  const side = showOriginal ? 'playerOut' : 'playerIn';
   const sortedClasses = useMemo(() => Object.keys(playersForGrade).sort((a, b) => a.localeCompare(b)), [playersForGrade]);
   const [activeClass, setActiveClass] = useState<string>(sortedClasses[0]);
   
@@ -688,7 +3993,8 @@ const PlayerListModal: React.FC<{
     setActiveTugOfWarCategory('women');
   }, [activeClass]);
 
-  const playerDataForActiveClass = playersForGrade[activeClass] as PlayerData;
+  const playerDataForActiveClass = shownPlayers[activeClass] as PlayerData;
+  const gradeSubstitutionCount = (substitutions || []).filter(substitution => playersForGrade[substitution.className]).length;
 
   return (
     <div className="modal-overlay" onClick={onClose}>
@@ -698,6 +4004,14 @@ const PlayerListModal: React.FC<{
           <button onClick={onClose} className="modal-close-button" aria-label="닫기">&times;</button>
         </div>
         <div className="modal-body">
+            {originalPlayersForGrade && gradeSubstitutionCount > 0 && (
+              <div className="roster-view-toggle">
+                <span>{showOriginal ? '교체 전 원래 명단입니다.' : `교체 ${gradeSubstitutionCount}건이 반영된 명단입니다.`}</span>
+                <button className="grade-action-button" onClick={() => setShowOriginal(value => !value)} aria-pressed={showOriginal}>
+                  {showOriginal ? '현재 명단 보기' : '원래 명단 보기'}
+                </button>
+              </div>
+            )}
             <div className="tabs player-list-tabs">
               {sortedClasses.map(className => (
                 <button
@@ -715,14 +4029,7 @@ const PlayerListModal: React.FC<{
                  <>
                   <div className="tabs sub-tabs">
                     {tugOfWarCategories.map(cat => {
-                        let catName:string;
-                        switch(cat) {
-                            case 'women': catName = '여자'; break;
-                            case 'men_vanguard': catName = '남자 (선발)'; break;
-                            case 'men_rearguard': catName = '남자 (후발)'; break;
-                            case 'reserve': catName = '예비'; break;
-                            default: catName = cat;
-                        }
+                        const catName = TUG_OF_WAR_CATEGORY_LABELS[cat];
                         return (
                              <button
                                 key={cat}
@@ -740,9 +4047,10 @@ const PlayerListModal: React.FC<{
                     if (players && players.length > 0) {
                       return (
                         <ul className="player-list-in-tab">
-                          {players.map((player, index) => (
-                            <li key={index}>{player}</li>
-                          ))}
+                          {players.map((player, index) => {
+                            const substitution = findSubstitution(substitutions, activeClass, activeTugOfWarCategory, player, side);
+                            return <li key={index}>{player}{substitution && <SubstitutionTag substitution={substitution} />}</li>;
+                          })}
                         </ul>
                       );
                     }
@@ -751,11 +4059,15 @@ const PlayerListModal: React.FC<{
                  </>
                ) : Array.isArray(playerDataForActiveClass) ? (
                  <ul className="player-list-in-tab">
-                   {playerDataForActiveClass.map((player, index) => (
-                     <li key={index}>
-                       {isRunnerEvent ? `${index + 1}번 주자: ${player}` : player}
-                     </li>
-                   ))}
+                   {playerDataForActiveClass.map((player, index) => {
+                     const substitution = findSubstitution(substitutions, activeClass, String(index + 1), player, side);
+                     return (
+                       <li key={index}>
+                         {isRunnerEvent ? `${index + 1}번 주자: ${player}` : player}
+                         {substitution && <SubstitutionTag substitution={substitution} />}
+                       </li>
+                     );
+                   })}
                  </ul>
                ) : null}
             </div>
@@ -768,13 +4080,29 @@ const PlayerListModal: React.FC<{
 interface ScoreDetail {
   eventTitle: string;
   score: number;
+  placement?: PlacementScore;
+}
+
+// An adjustment as listed in the breakdown, with its linked event resolved to a title
+interface AdjustmentDetail {
+  amount: number;
+  reason: string;
+  eventTitle?: string;
+  at?: string;
 }
 
+// Sheet timestamps are free text; show them as entered when they are not a parseable date
+const formatAdjustmentTime = (at: string): string => {
+  const date = new Date(at);
+  return Number.isNaN(date.getTime()) ? at : date.toLocaleString('ko-KR');
+};
+
 const ScoreDetailModal: React.FC<{ 
     className: string; 
     details: ScoreDetail[]; 
+    adjustments: AdjustmentDetail[];
     onClose: () => void; 
-}> = ({ className, details, onClose }) => {
+}> = ({ className, details, adjustments, onClose }) => {
     const grade = className.split('-')[0];
     const classNum = className.split('-')[1];
 
@@ -786,12 +4114,23 @@ const ScoreDetailModal: React.FC<{
                     <button onClick={onClose} className="modal-close-button" aria-label="닫기">&times;</button>
                 </div>
                 <div className="modal-body">
-                    {details.length > 0 ? (
+                    {details.length > 0 || adjustments.length > 0 ? (
                         <ul className="score-breakdown-list">
-                            {details.map(({ eventTitle, score }) => (
+                            {details.map(({ eventTitle, score, placement }) => (
                                 <li key={eventTitle}>
                                     <span className="breakdown-event-title">{eventTitle}</span>
-                                    <span className="breakdown-event-score">{score}점</span>
+                                    <span className="breakdown-event-score">
+                                        {placement ? `${formatPlacement(placement)} (${score}점)` : `${score}점`}
+                                    </span>
+                                </li>
+                            ))}
+                            {adjustments.map(({ amount, reason, eventTitle, at }, index) => (
+                                <li key={`adjustment-${index}`} className={`breakdown-adjustment ${amount < 0 ? 'negative' : ''}`}>
+                                    <span className="breakdown-event-title">
+                                        {amount < 0 ? '감점' : '가점'}{eventTitle ? ` · ${eventTitle}` : ''}
+                                        <small>{reason}{at ? ` (${formatAdjustmentTime(at)})` : ''}</small>
+                                    </span>
+                                    <span className="breakdown-event-score">{formatDelta(amount)}점</span>
                                 </li>
                             ))}
                         </ul>
@@ -848,13 +4187,15 @@ const LaneAssignmentModal: React.FC<{ grade: string; eventTitle: string; onClose
 
 const Scoreboard: React.FC<{ 
     scores: Scores; 
+    placementScores?: { [className: string]: PlacementScore };
+    deltas?: Scores;
     eventTitle: string;
     missions?: { [grade: string]: { [runner: string]: string[] } };
     players?: { [grade: string]: { [className: string]: PlayerData } };
     onShowMission: (grade: string) => void;
     onShowPlayers: (grade: string) => void;
     onShowLanes: (grade: string) => void;
-}> = ({ scores, eventTitle, missions, players, onShowMission, onShowPlayers, onShowLanes }) => {
+}> = ({ scores, placementScores, deltas, eventTitle, missions, players, onShowMission, onShowPlayers, onShowLanes }) => {
   const isLaneEvent = eventTitle === '미션 달리기' || eventTitle === '계주';
   
   // FIX: Refactored to use Object.keys to prevent potential type inference issues with Object.entries, which was causing a downstream `.map` error.
@@ -898,6 +4239,10 @@ const Scoreboard: React.FC<{
               <div key={className} className="team-score">
                 <span className="team-name">{className.split('-')[1]}반</span>
                 <span className="score">{score}</span>
+                {deltas?.[className] ? <span className={`score-delta ${deltas[className] < 0 ? 'negative' : ''}`}>{formatDelta(deltas[className])}</span> : null}
+                {placementScores?.[className] && (
+                  <span className="team-placement">{formatPlacement(placementScores[className])}</span>
+                )}
               </div>
             ))}
           </div>
@@ -907,24 +4252,154 @@ const Scoreboard: React.FC<{
   );
 };
 
-const TotalScoreboard: React.FC<{ events: SportsEvent[]; cheeringScores: Scores; }> = ({ events, cheeringScores }) => {
-    const [activeTab, setActiveTab] = useState<'total' | 'cheering'>('total');
-    const [modalClass, setModalClass] = useState<string | null>(null);
+// --- Score Progression Chart ---
+interface ProgressionSeries {
+  className: string;
+  contributions: number[]; // points earned in each plotted event
+  cumulative: number[]; // running total after each plotted event
+}
 
-    const totalScoresByClass = useMemo(() => {
-        const totals: Scores = {};
-        events.forEach(event => {
-            if (event.scores) {
-                for (const [className, score] of Object.entries(event.scores)) {
-                    if (!totals[className]) {
-                        totals[className] = 0;
-                    }
-                    totals[className] += Number(score);
-                }
-            }
-        });
-        return totals;
-    }, [events]);
+const CLASS_LINE_COLORS = ['#e03131', '#1971c2', '#2f9e44', '#f08c00', '#9c36b5', '#0c8599'];
+
+// Plots the scored events in schedule order; events still 예정 without points are left out.
+// Adjustments are added to their linked event, or to a final 가감점 step when unlinked.
+const buildScoreProgression = (events: SportsEvent[], grade: string, adjustments: ScoreAdjustment[] = []): { eventTitles: string[]; series: ProgressionSeries[] } => {
+  const plotted = events.filter(event => {
+    if (!event.scores) return false;
+    const gradeClasses = Object.keys(event.scores).filter(className => className.split('-')[0] === grade);
+    return gradeClasses.length > 0 && (event.status !== '예정' || gradeClasses.some(className => event.scores![className] !== 0));
+  });
+  const classNames = Array.from(new Set(plotted.flatMap(event =>
+    Object.keys(event.scores!).filter(className => className.split('-')[0] === grade)))).sort();
+
+  const gradeAdjustments = adjustments.filter(({ className }) => className.split('-')[0] === grade);
+  const unlinked = gradeAdjustments.filter(({ eventId }) => !plotted.some(event => event.id === eventId));
+
+  const series = classNames.map(className => {
+    let total = 0;
+    const adjustmentFor = (matches: (adjustment: ScoreAdjustment) => boolean) => gradeAdjustments
+      .filter(adjustment => adjustment.className === className && matches(adjustment))
+      .reduce((sum, { amount }) => sum + amount, 0);
+    const contributions = plotted.map(event =>
+      Number(event.scores![className] || 0) + adjustmentFor(({ eventId }) => eventId === event.id));
+    if (unlinked.length > 0) contributions.push(adjustmentFor(adjustment => unlinked.includes(adjustment)));
+    const cumulative = contributions.map(points => (total += points));
+    return { className, contributions, cumulative };
+  });
+  const eventTitles = plotted.map(event => event.title);
+  if (unlinked.length > 0) eventTitles.push('가감점');
+  return { eventTitles, series };
+};
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 280;
+const CHART_MARGIN = { top: 16, right: 16, bottom: 40, left: 44 };
+
+const ScoreProgressChart: React.FC<{ events: SportsEvent[]; adjustments: ScoreAdjustment[]; grade: string }> = ({ events, adjustments, grade }) => {
+  const { eventTitles, series } = useMemo(() => buildScoreProgression(events, grade, adjustments), [events, grade, adjustments]);
+  const [activePoint, setActivePoint] = useState<{ className: string; index: number } | null>(null);
+
+  if (eventTitles.length === 0) {
+    return <p className="no-scores-message">아직 점수가 난 경기가 없습니다.</p>;
+  }
+
+  // Penalties can take a total below 0, so the scale starts at the lowest total when it is negative
+  const minTotal = Math.min(0, ...series.flatMap(({ cumulative }) => cumulative));
+  const maxTotal = Math.max(10, ...series.flatMap(({ cumulative }) => cumulative));
+  const plotWidth = CHART_WIDTH - CHART_MARGIN.left - CHART_MARGIN.right;
+  const plotHeight = CHART_HEIGHT - CHART_MARGIN.top - CHART_MARGIN.bottom;
+  // Index 0 is the start (0점); event i sits at index i + 1
+  const x = (index: number) => CHART_MARGIN.left + (plotWidth * index) / eventTitles.length;
+  const y = (value: number) => CHART_MARGIN.top + plotHeight - (plotHeight * (value - minTotal)) / (maxTotal - minTotal);
+  const gridValues = [0, 0.25, 0.5, 0.75, 1].map(ratio => Math.round(minTotal + (maxTotal - minTotal) * ratio));
+
+  const active = activePoint && series.find(({ className }) => className === activePoint.className);
+
+  return (
+    <div className="progress-chart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label={`${grade}학년 누적 점수 그래프`}>
+        {gridValues.map((value, index) => (
+          <g key={index} className="progress-chart-grid">
+            <line x1={CHART_MARGIN.left} x2={CHART_WIDTH - CHART_MARGIN.right} y1={y(value)} y2={y(value)} />
+            <text x={CHART_MARGIN.left - 6} y={y(value)} textAnchor="end" dominantBaseline="middle">{value}</text>
+          </g>
+        ))}
+        <line className="progress-chart-zero" x1={CHART_MARGIN.left} x2={CHART_WIDTH - CHART_MARGIN.right} y1={y(0)} y2={y(0)} />
+        {eventTitles.map((title, index) => (
+          <text key={index} className="progress-chart-label" x={x(index + 1)} y={CHART_HEIGHT - CHART_MARGIN.bottom + 18} textAnchor="middle">
+            {title}
+          </text>
+        ))}
+        {series.map(({ className, cumulative }, seriesIndex) => {
+          const color = CLASS_LINE_COLORS[seriesIndex % CLASS_LINE_COLORS.length];
+          const points = [0, ...cumulative].map((value, index) => `${x(index)},${y(value)}`).join(' ');
+          return (
+            <g key={className} className={activePoint && activePoint.className !== className ? 'progress-chart-dimmed' : ''}>
+              <polyline points={points} fill="none" stroke={color} strokeWidth={3} strokeLinejoin="round" />
+              {cumulative.map((value, index) => (
+                <circle
+                  key={index}
+                  cx={x(index + 1)}
+                  cy={y(value)}
+                  r={activePoint?.className === className && activePoint.index === index ? 7 : 5}
+                  fill={color}
+                  tabIndex={0}
+                  aria-label={`${className.split('-')[1]}반 ${eventTitles[index]} 누적 ${value}점`}
+                  onMouseEnter={() => setActivePoint({ className, index })}
+                  onFocus={() => setActivePoint({ className, index })}
+                  onClick={() => setActivePoint({ className, index })}
+                  onMouseLeave={() => setActivePoint(null)}
+                  onBlur={() => setActivePoint(null)}
+                />
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      {active && activePoint && (
+        <div
+          className="progress-chart-tooltip"
+          style={{
+            left: `${(x(activePoint.index + 1) / CHART_WIDTH) * 100}%`,
+            top: `${(y(active.cumulative[activePoint.index]) / CHART_HEIGHT) * 100}%`,
+          }}
+        >
+          <strong>{active.className.split('-')[1]}반 · {eventTitles[activePoint.index]}</strong>
+          <span>{formatDelta(active.contributions[activePoint.index])}점 (누적 {active.cumulative[activePoint.index]}점)</span>
+        </div>
+      )}
+      <ul className="progress-chart-legend">
+        {series.map(({ className, cumulative }, seriesIndex) => (
+          <li key={className}>
+            <span className="legend-swatch" style={{ backgroundColor: CLASS_LINE_COLORS[seriesIndex % CLASS_LINE_COLORS.length] }} />
+            {className.split('-')[1]}반 {cumulative[cumulative.length - 1]}점
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+// --- END Score Progression Chart ---
+
+type ScoreboardTab = StandingsView | 'progress';
+
+const SCOREBOARD_TAB_TITLES: Record<ScoreboardTab, string> = {
+    total: '종합 점수 현황',
+    cheering: '질서 응원 점수 현황',
+    final: '최종 순위',
+    progress: '누적 점수 추이',
+};
+
+const TotalScoreboard: React.FC<{
+    events: SportsEvent[];
+    cheeringScores: Scores;
+    adjustments: ScoreAdjustment[];
+    standingsConfig: StandingsConfig;
+    recentDeltas: ScoreDeltas;
+}> = ({ events, cheeringScores, adjustments, standingsConfig, recentDeltas }) => {
+    const [activeTab, setActiveTab] = useState<ScoreboardTab>('total');
+    const [modalClass, setModalClass] = useState<string | null>(null);
+    const standingsView: StandingsView = activeTab === 'progress' ? 'total' : activeTab;
 
     const scoreDetailsByClass = useMemo(() => {
         const details: { [className: string]: ScoreDetail[] } = {};
@@ -932,11 +4407,13 @@ const TotalScoreboard: React.FC<{ events: SportsEvent[]; cheeringScores: Scores;
             if (event.scores) {
                 for (const className in event.scores) {
                     const score = event.scores[className];
-                    if (score > 0) {
+                    const placement = event.placementScores?.[className];
+                    // A recorded placement is listed even when it earned no points (e.g. 실격)
+                    if (score !== 0 || placement) {
                         if (!details[className]) {
                             details[className] = [];
                         }
-                        details[className].push({ eventTitle: event.title, score });
+                        details[className].push({ eventTitle: event.title, score, placement });
                     }
                 }
             }
@@ -944,22 +4421,33 @@ const TotalScoreboard: React.FC<{ events: SportsEvent[]; cheeringScores: Scores;
         return details;
     }, [events]);
 
-    // FIX: Explicitly typing `scoresByGrade` ensures TypeScript correctly infers its type, resolving the downstream error on classScores.map.
-    const scoresByGrade: Record<string, { className: string; score: number }[]> = useMemo(() => {
-        const scoresToProcess = activeTab === 'total' ? totalScoresByClass : cheeringScores;
-        // FIX: Refactored to use Object.keys to prevent potential type inference issues with Object.entries.
-        return Object.keys(scoresToProcess).reduce((acc: Record<string, { className: string; score: number }[]>, className) => {
-            const grade = className.split('-')[0];
-            const score = scoresToProcess[className];
-            if (!acc[grade]) acc[grade] = [];
-            acc[grade].push({ className, score: Number(score) });
-            acc[grade].sort((a, b) => a.className.localeCompare(b.className));
-            return acc;
-        }, {} as Record<string, { className: string; score: number }[]>);
-    }, [totalScoresByClass, cheeringScores, activeTab]);
+    const standingsByGrade = useMemo(
+        () => computeStandings(events, cheeringScores, adjustments, standingsView, standingsConfig),
+        [events, cheeringScores, adjustments, standingsView, standingsConfig]
+    );
+
+    // Recent change per class in the units of the active view
+    const viewDeltas = useMemo(() => {
+        const deltas: Scores = {};
+        const add = (className: string, delta: number) => {
+            deltas[className] = Math.round(((deltas[className] || 0) + delta) * 10) / 10;
+        };
+        if (standingsView !== 'cheering') {
+            Object.keys(recentDeltas.byEvent).forEach(eventId => {
+                const eventDeltas = recentDeltas.byEvent[Number(eventId)];
+                Object.keys(eventDeltas).forEach(className => add(className, eventDeltas[className]));
+            });
+            Object.keys(recentDeltas.adjustments).forEach(className => add(className, recentDeltas.adjustments[className]));
+        }
+        if (standingsView !== 'total') {
+            const weight = standingsView === 'final' ? standingsConfig.cheeringWeight : 1;
+            Object.keys(recentDeltas.cheering).forEach(className => add(className, recentDeltas.cheering[className] * weight));
+        }
+        return deltas;
+    }, [recentDeltas, standingsView, standingsConfig]);
 
     const handleClassClick = (className: string) => {
-        if (activeTab === 'total') {
+        if (activeTab !== 'cheering') {
             setModalClass(className);
         }
     };
@@ -972,7 +4460,7 @@ const TotalScoreboard: React.FC<{ events: SportsEvent[]; cheeringScores: Scores;
         <>
             <div className="total-scoreboard-card">
                 <div className="total-scoreboard-header">
-                    <h3>{activeTab === 'total' ? '종합 점수 현황' : '질서 응원 점수 현황'}</h3>
+                    <h3>{SCOREBOARD_TAB_TITLES[activeTab]}</h3>
                     <div className="tabs">
                         <button 
                             className={`tab-button ${activeTab === 'total' ? 'active' : ''}`}
@@ -988,62 +4476,313 @@ const TotalScoreboard: React.FC<{ events: SportsEvent[]; cheeringScores: Scores;
                         >
                             질서 응원 점수
                         </button>
+                        <button 
+                            className={`tab-button ${activeTab === 'final' ? 'active' : ''}`}
+                            onClick={() => setActiveTab('final')}
+                            aria-pressed={activeTab === 'final'}
+                        >
+                            최종 순위
+                        </button>
+                        <button 
+                            className={`tab-button ${activeTab === 'progress' ? 'active' : ''}`}
+                            onClick={() => setActiveTab('progress')}
+                            aria-pressed={activeTab === 'progress'}
+                        >
+                            점수 추이
+                        </button>
                     </div>
                 </div>
                 {activeTab === 'total' ? (
                   <div className="scoring-guide">
-                    <span className="scoring-guide-item">🥇 1등: <strong>50점</strong></span>
-                    <span className="scoring-guide-item">🥈 2등: <strong>30점</strong></span>
-                    <span className="scoring-guide-item">🥉 3등: <strong>20점</strong></span>
-                    <span className="scoring-guide-item">🙌 참가: <strong>10점</strong></span>
+                    {DEFAULT_POINT_TABLE.placements.map((points, index) => (
+                      <span key={index} className="scoring-guide-item">{PLACEMENT_MEDALS[index] || '🏅'} {index + 1}등: <strong>{points}점</strong></span>
+                    ))}
+                    <span className="scoring-guide-item">🙌 참가: <strong>{DEFAULT_POINT_TABLE.participation}점</strong></span>
                   </div>
-                ) : (
+                ) : activeTab === 'cheering' ? (
                   <div className="cheering-guide">
                     <p>질서를 잘 지키고 응원을 열심히 해보자! 그렇다면 점수를 받을 수 있을거야!</p>
                   </div>
+                ) : activeTab === 'progress' ? (
+                  <div className="progress-guide">
+                    <p>경기 일정 순서대로 반별 누적 점수를 보여줘요. 점을 누르면 그 경기에서 얻은 점수를 볼 수 있어요.</p>
+                  </div>
+                ) : (
+                  <div className="scoring-guide">
+                    <span className="scoring-guide-item">🏆 최종 점수 = 경기 점수 + 응원 점수 × <strong>{standingsConfig.cheeringWeight}</strong></span>
+                    {standingsConfig.tieBreakers.length > 0 && (
+                      <span className="scoring-guide-item">⚖️ 동점 시: <strong>{standingsConfig.tieBreakers.map(tieBreaker => TIE_BREAKER_LABELS[tieBreaker]).join(' → ')}</strong></span>
+                    )}
+                  </div>
                 )}
-                <div className="total-scores-container">
-                    {['1', '2', '3'].map(grade => {
-                        const classScores = scoresByGrade[grade];
-                        if (!classScores || classScores.length === 0) {
-                            return null;
-                        }
-                        return (
-                            <div key={grade} className="total-grade-group">
-                                <h4 className="total-grade-title">{grade}학년</h4>
-                                <div className="total-class-scores-grid">
-                                    {classScores.map(({ className, score }) => (
-                                        <button
-                                            key={className}
-                                            className={`total-class-score-item ${activeTab === 'total' ? 'clickable' : ''}`}
-                                            onClick={() => handleClassClick(className)}
-                                            disabled={activeTab !== 'total'}
-                                            aria-label={`${className} 점수 상세보기`}
-                                        >
-                                            <span>{className.split('-')[1]}반:</span>
-                                            <strong>{score}점</strong>
-                                        </button>
-                                    ))}
-                                </div>
-                            </div>
-                        );
-                    })}
-                </div>
+                {activeTab === 'progress' ? (
+                  <div className="progress-charts-container">
+                    {['1', '2', '3'].map(grade => (
+                      <div key={grade} className="total-grade-group">
+                        <h4 className="total-grade-title">{grade}학년</h4>
+                        <ScoreProgressChart events={events} adjustments={adjustments} grade={grade} />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="total-scores-container">
+                      {['1', '2', '3'].map(grade => {
+                          const rows = standingsByGrade[grade];
+                          if (!rows || rows.length === 0) {
+                              return null;
+                          }
+                          return (
+                              <div key={grade} className="total-grade-group">
+                                  <h4 className="total-grade-title">{grade}학년</h4>
+                                  <ol className="standings-list">
+                                      {rows.map(row => (
+                                          <li key={row.className}>
+                                              <button
+                                                  className={`total-class-score-item standings-item ${activeTab !== 'cheering' ? 'clickable' : ''}`}
+                                                  onClick={() => handleClassClick(row.className)}
+                                                  disabled={activeTab === 'cheering'}
+                                                  aria-label={`${row.rank}위 ${row.className} 점수 상세보기`}
+                                              >
+                                                  <span className="standings-rank">
+                                                      {row.points > 0 && PLACEMENT_MEDALS[row.rank - 1] ? PLACEMENT_MEDALS[row.rank - 1] : `${row.rank}위`}
+                                                  </span>
+                                                  <span className="standings-class">{row.className.split('-')[1]}반</span>
+                                                  <span className="standings-points">
+                                                      <strong>
+                                                          {row.points}점
+                                                          {viewDeltas[row.className] ? <span className={`score-delta ${viewDeltas[row.className] < 0 ? 'negative' : ''}`}>{formatDelta(viewDeltas[row.className])}</span> : null}
+                                                      </strong>
+                                                      {activeTab === 'final' && (
+                                                          <small>
+                                                              경기 {row.eventPoints}
+                                                              {row.adjustmentPoints !== 0 && ` ${row.adjustmentPoints < 0 ? '−' : '+'} 가감 ${Math.abs(row.adjustmentPoints)}`}
+                                                              {' '}+ 응원 {row.cheeringPoints}{standingsConfig.cheeringWeight !== 1 ? ` × ${standingsConfig.cheeringWeight}` : ''}
+                                                          </small>
+                                                      )}
+                                                      {activeTab !== 'final' && activeTab !== 'cheering' && row.adjustmentPoints !== 0 && (
+                                                          <small>가감점 {formatDelta(row.adjustmentPoints)} 포함</small>
+                                                      )}
+                                                      {row.decidedBy && <small className="standings-tie-note">동점 · {TIE_BREAKER_LABELS[row.decidedBy]}</small>}
+                                                  </span>
+                                              </button>
+                                          </li>
+                                      ))}
+                                  </ol>
+                              </div>
+                          );
+                      })}
+                  </div>
+                )}
+            </div>
+            {modalClass && (
+                <ScoreDetailModal 
+                    className={modalClass}
+                    details={scoreDetailsByClass[modalClass] || []}
+                    adjustments={adjustments
+                        .filter(adjustment => adjustment.className === modalClass)
+                        .map(({ amount, reason, eventId, at }) => ({
+                            amount,
+                            reason,
+                            eventTitle: events.find(event => event.id === eventId)?.title,
+                            at,
+                        }))}
+                    onClose={handleCloseModal}
+                />
+            )}
+        </>
+    );
+};
+
+
+const OUTLOOK_STATUS_LABELS: Record<OutlookStatus, string> = {
+    clinched: '🏆 우승 확정',
+    eliminated: '우승 불가',
+    contender: '우승 경쟁 중',
+};
+
+const ChampionshipOutlookPanel: React.FC<{ events: SportsEvent[]; adjustments: ScoreAdjustment[] }> = ({ events, adjustments }) => {
+    const outlookByGrade = useMemo(() => computeChampionshipOutlook(events, adjustments), [events, adjustments]);
+
+    const describeNeed = (outlook: ClassOutlook, hasRemaining: boolean): string => {
+        if (outlook.status === 'clinched') return `${outlook.points}점`;
+        if (outlook.status === 'eliminated') return `최대 ${outlook.maxPoints}점`;
+        if (!hasRemaining) return '동점 1위 · 순위 규칙으로 결정';
+        if (outlook.neededFinish === null) return `최대 ${outlook.maxPoints}점 · 다른 반 결과 필요`;
+        return `남은 경기 모두 ${outlook.neededFinish}등 이상이면 우승`;
+    };
+
+    return (
+        <div className="outlook-card">
+            <h3>우승 가능성</h3>
+            <p className="outlook-guide">끝나지 않은 경기에서 얻을 수 있는 최대 점수로 계산해요. (응원 점수 제외)</p>
+            <div className="total-scores-container">
+                {['1', '2', '3'].map(grade => {
+                    const outlook = outlookByGrade[grade];
+                    if (!outlook) {
+                        return null;
+                    }
+                    const hasRemaining = outlook.remainingEvents.length > 0;
+                    return (
+                        <div key={grade} className="total-grade-group">
+                            <h4 className="total-grade-title">{grade}학년</h4>
+                            <p className="outlook-remaining">
+                                {hasRemaining ? `남은 경기: ${outlook.remainingEvents.join(', ')}` : '모든 경기가 끝났습니다.'}
+                            </p>
+                            <ul className="outlook-list">
+                                {outlook.classes.map(classOutlook => (
+                                    <li key={classOutlook.className} className={`outlook-item status-${classOutlook.status}`}>
+                                        <span className="standings-class">{classOutlook.className.split('-')[1]}반</span>
+                                        <span className="outlook-status">{OUTLOOK_STATUS_LABELS[classOutlook.status]}</span>
+                                        <small>{describeNeed(classOutlook, hasRemaining)}</small>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    );
+                })}
             </div>
-            {modalClass && (
-                <ScoreDetailModal 
-                    className={modalClass}
-                    details={scoreDetailsByClass[modalClass] || []}
-                    onClose={handleCloseModal}
-                />
+        </div>
+    );
+};
+
+const RecentChangesFeed: React.FC<{ changes: ScoreChange[] }> = ({ changes }) => {
+    const newestFirst = useMemo(() => [...changes].reverse(), [changes]);
+
+    return (
+        <div className="recent-changes-card">
+            <h3>최근 업데이트</h3>
+            {newestFirst.length === 0 ? (
+                <p className="recent-changes-empty">아직 기록된 변경이 없습니다.</p>
+            ) : (
+                <ul className="recent-changes-list">
+                    {newestFirst.map((change, index) => (
+                        <li key={`${change.at}-${index}`} className={`recent-change kind-${change.kind}`}>
+                            <time dateTime={change.at} title={new Date(change.at).toLocaleString('ko-KR')}>
+                                {new Date(change.at).toLocaleTimeString('ko-KR')}
+                            </time>
+                            <span>{formatScoreChange(change)}</span>
+                        </li>
+                    ))}
+                </ul>
             )}
-        </>
+        </div>
     );
 };
 
+// Header search box listing every event a student takes part in
+const StudentSearch: React.FC<{ events: SportsEvent[] }> = ({ events }) => {
+  const [query, setQuery] = useState('');
+  const rosterIndex = useMemo(() => buildRosterIndex(events), [events]);
+  const results = useMemo(() => searchRoster(rosterIndex, query), [rosterIndex, query]);
+  const isSearching = normalizeSearchText(query).length >= STUDENT_SEARCH_MIN_LENGTH;
+
+  // One group per student; the same name in two classes is two students
+  const groups: { key: string; name: string; className?: string; entries: RosterEntry[] }[] = [];
+  results.slice(0, STUDENT_SEARCH_MAX_RESULTS).forEach(entry => {
+    const key = `${entry.className || ''}|${entry.name}`;
+    let group = groups.find(item => item.key === key);
+    if (!group) {
+      group = { key, name: entry.name, className: entry.className, entries: [] };
+      groups.push(group);
+    }
+    group.entries.push(entry);
+  });
+
+  return (
+    <div className="student-search" onKeyDown={(e) => { if (e.key === 'Escape') setQuery(''); }}>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="🔍 내 이름으로 경기 찾기"
+        aria-label="학생 이름 검색"
+      />
+      {isSearching && (
+        <div className="student-search-results" role="region" aria-live="polite">
+          {groups.length === 0 && <p className="student-search-empty">'{query.trim()}'에 해당하는 학생이 없습니다.</p>}
+          {groups.map(group => (
+            <div key={group.key} className="student-search-group">
+              <h4>{group.name}{group.className && <span className="student-search-class"> {group.className}</span>}</h4>
+              <ul>
+                {group.entries.map((entry, index) => (
+                  <li key={index} className={`status-${entry.event.status}`}>
+                    <span className="student-search-time">{entry.startTime} - {entry.endTime}</span>
+                    <span className="student-search-event">{entry.event.title}</span>
+                    <span className="student-search-role">{entry.role}</span>
+                    <span className="status-badge">{entry.event.status}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {results.length > STUDENT_SEARCH_MAX_RESULTS && (
+            <p className="student-search-empty">검색 결과가 많아 {STUDENT_SEARCH_MAX_RESULTS}건까지만 표시합니다. 이름을 더 입력해주세요.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Sticky summary of what is on now and what is next, with a live countdown
+const NowNextBanner: React.FC<{ events: SportsEvent[]; clockOffsetMinutes: number; reminderEventIds: number[]; }> = ({ events, clockOffsetMinutes, reminderEventIds }) => {
+  const [now, setNow] = useState(() => getNow(clockOffsetMinutes));
+
+  useEffect(() => {
+    setNow(getNow(clockOffsetMinutes));
+    const interval = setInterval(() => setNow(getNow(clockOffsetMinutes)), 1000);
+    return () => clearInterval(interval);
+  }, [clockOffsetMinutes]);
+
+  const today = getCurrentDate(now);
+  const currentEvents = events.filter(event => event.status === '진행중');
+  const nextEvent = events
+    .filter(event => event.status === '예정' && (!event.date || event.date === today))
+    .sort((a, b) => getEventStartAt(a, now).getTime() - getEventStartAt(b, now).getTime())[0];
+
+  if (currentEvents.length === 0 && !nextEvent) return null;
+
+  const msUntilNext = nextEvent ? getEventStartAt(nextEvent, now).getTime() - now.getTime() : 0;
+
+  return (
+    <div className="now-next-banner" role="status">
+      <div className="now-next-item now">
+        <span className="now-next-label">지금 진행중</span>
+        {currentEvents.length > 0 ? currentEvents.map(event => (
+          <div key={event.id}>
+            <strong>{event.title}</strong>
+            <span className="now-next-meta">{event.location} · ~{event.schedule.endTime}</span>
+          </div>
+        )) : <strong>진행 중인 경기가 없습니다</strong>}
+      </div>
+      <div className="now-next-item next">
+        <span className="now-next-label">다음 경기</span>
+        {nextEvent ? (
+          <div>
+            <strong>{reminderEventIds.includes(nextEvent.id) && '🔔 '}{nextEvent.title}</strong>
+            <span className="now-next-meta">{nextEvent.schedule.startTime} · {nextEvent.location}</span>
+            <span className="now-next-countdown">
+              {msUntilNext > 0 ? `${formatCountdown(msUntilNext)} 후 시작` : '곧 시작'}
+            </span>
+          </div>
+        ) : <strong>남은 경기가 없습니다</strong>}
+      </div>
+    </div>
+  );
+};
 
-const EventCard: React.FC<{ event: SportsEvent; isExpanded: boolean; onToggle: () => void; colorIndex: number; onShowBracket: () => void; }> = ({ event, isExpanded, onToggle, colorIndex, onShowBracket }) => {
+const EventCard: React.FC<{
+  event: SportsEvent;
+  scoreDeltas?: Scores;
+  isExpanded: boolean;
+  onToggle: () => void;
+  colorIndex: number;
+  onShowBracket: () => void;
+  // Omitted when this browser cannot show notifications
+  reminder?: { isOn: boolean; isBlocked: boolean; onToggle: () => void };
+}> = ({ event, scoreDeltas, isExpanded, onToggle, colorIndex, onShowBracket, reminder }) => {
   const [selectedMissionGrade, setSelectedMissionGrade] = useState<string | null>(null);
+  const [revealMissionGrade, setRevealMissionGrade] = useState<string | null>(null);
   const [selectedPlayerListGrade, setSelectedPlayerListGrade] = useState<string | null>(null);
   const [selectedLaneGrade, setSelectedLaneGrade] = useState<string | null>(null);
   const [selectedTeam, setSelectedTeam] = useState<{
@@ -1056,6 +4795,7 @@ const EventCard: React.FC<{ event: SportsEvent; isExpanded: boolean; onToggle: (
   
   const hasDetails = event.rules || event.scores || event.lunchMenu || event.lineup || event.players || event.danceTeams || event.teacherTeams || event.gameFormat;
   const isCeremony = event.id === 0 || event.id === 6;
+  const isRescheduled = event.schedule.startTime !== event.startTime || event.schedule.endTime !== event.endTime;
   const themeClass = `theme-color-${colorIndex}`;
 
   return (
@@ -1069,7 +4809,19 @@ const EventCard: React.FC<{ event: SportsEvent; isExpanded: boolean; onToggle: (
           disabled={!hasDetails}
         >
           <div className="event-time-location">
-            <span className={'event-time' + (isCeremony ? ' ceremony-time' : '')}>{event.startTime} - {event.endTime}</span>
+            <span className={'event-time' + (isCeremony ? ' ceremony-time' : '')}>
+              {isRescheduled ? (
+                <>
+                  <s className="planned-time">{event.startTime} - {event.endTime}</s>
+                  {' '}{event.schedule.startTime} - {event.schedule.endTime}{event.status === '예정' ? ' (예상)' : ''}
+                </>
+              ) : (
+                `${event.startTime} - ${event.endTime}`
+              )}
+            </span>
+            {event.status === '예정' && event.schedule.delayMinutes >= DELAY_NOTICE_MINUTES && (
+              <span className="delay-badge">⏱ {formatDelayNotice(event.schedule.delayMinutes)}</span>
+            )}
             <span className="event-location">{event.location}</span>
           </div>
           <h3 className={'event-title' + (isCeremony ? ' ceremony-title' : '')}>{event.title}</h3>
@@ -1078,6 +4830,32 @@ const EventCard: React.FC<{ event: SportsEvent; isExpanded: boolean; onToggle: (
               {hasDetails && <span className={`chevron ${isExpanded ? 'expanded' : ''}`}>▼</span>}
           </div>
         </button>
+        {event.heats && event.heats.length > 0 && (
+          <ol className="heat-strip" aria-label="학년별 진행 순서">
+            {event.heats.map(heat => (
+              <li key={heat.id} className={`heat-step heat-${heat.status}`}>
+                <span className="heat-title">{heat.title || `${heat.grade}학년`}</span>
+                <span className="heat-time">{heat.schedule.startTime} - {heat.schedule.endTime}</span>
+                <span className="heat-status">
+                  {heat.winners.length > 0 ? `🥇 ${heat.winners.join(', ')}` : heat.status}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+        {reminder && event.status === '예정' && (
+          <div className="reminder-toggle-container">
+            <button
+              className={`reminder-toggle ${reminder.isOn ? 'active' : ''}`}
+              onClick={reminder.onToggle}
+              aria-pressed={reminder.isOn}
+              disabled={reminder.isBlocked && !reminder.isOn}
+              title={reminder.isBlocked ? '브라우저 설정에서 이 사이트의 알림이 차단되어 있습니다.' : undefined}
+            >
+              {reminder.isOn ? `🔔 시작 ${REMINDER_LEAD_MINUTES}분 전 알림 켜짐` : '🔕 시작 알림 받기'}
+            </button>
+          </div>
+        )}
         {isExpanded && (
           <div id={`details-${event.id}`} className={`event-details detail-color-${colorIndex}`}>
             {(event.rules || event.gameFormat) && (
@@ -1128,74 +4906,961 @@ const EventCard: React.FC<{ event: SportsEvent; isExpanded: boolean; onToggle: (
                     ))}
                   </div>
                 </div>
-              )}
-            {event.lunchMenu && (
-              <div className="detail-section lunch-menu">
-                <h4>오늘의 점심 메뉴</h4>
-                <p>{event.lunchMenu}</p>
-              </div>
-            )}
-            {event.title === '줄다리기' && (
-                <div className="detail-section bracket-button-container">
-                    <button onClick={onShowBracket} className="show-bracket-button">
-                        ⚔️ 학년별 대진표 시뮬레이션
-                    </button>
+              )}
+            {event.lunchMenu && (
+              <div className="detail-section lunch-menu">
+                <h4>오늘의 점심 메뉴</h4>
+                <p>{event.lunchMenu}</p>
+              </div>
+            )}
+            {event.bracket && (
+                <div className="detail-section bracket-button-container">
+                    <button onClick={onShowBracket} className="show-bracket-button">
+                        ⚔️ 학년별 대진표
+                    </button>
+                </div>
+            )}
+            {event.scores && 
+              <Scoreboard 
+                scores={event.scores} 
+                placementScores={event.placementScores}
+                deltas={scoreDeltas}
+                eventTitle={event.title}
+                missions={event.missions}
+                players={event.players}
+                onShowMission={setSelectedMissionGrade}
+                onShowPlayers={setSelectedPlayerListGrade}
+                onShowLanes={setSelectedLaneGrade}
+              />
+            }
+          </div>
+        )}
+      </div>
+      {selectedMissionGrade && event.missions && event.missions[selectedMissionGrade] && (
+        <MissionModal 
+          grade={selectedMissionGrade}
+          missions={event.missions[selectedMissionGrade]} 
+          draw={event.missionDraw}
+          assignments={event.missionAssignments?.[selectedMissionGrade]}
+          isDrawOutdated={event.missionDrawOutdated}
+          onShowReveal={() => {
+            setRevealMissionGrade(selectedMissionGrade);
+            setSelectedMissionGrade(null);
+          }}
+          onClose={() => setSelectedMissionGrade(null)} 
+        />
+      )}
+      {revealMissionGrade && event.missionDraw && event.missionAssignments?.[revealMissionGrade] && (
+        <MissionDrawRevealModal
+          grade={revealMissionGrade}
+          eventTitle={event.title}
+          draw={event.missionDraw}
+          assignments={event.missionAssignments[revealMissionGrade]}
+          onClose={() => setRevealMissionGrade(null)}
+        />
+      )}
+      {selectedPlayerListGrade && event.players && event.players[selectedPlayerListGrade] && (
+        <PlayerListModal
+          grade={selectedPlayerListGrade}
+          playersForGrade={event.players[selectedPlayerListGrade]}
+          onClose={() => setSelectedPlayerListGrade(null)}
+          eventTitle={event.title}
+          substitutions={event.substitutions}
+          originalPlayersForGrade={event.originalPlayers?.[selectedPlayerListGrade]}
+        />
+      )}
+      {selectedLaneGrade && (
+        <LaneAssignmentModal
+            grade={selectedLaneGrade}
+            eventTitle={event.title}
+            onClose={() => setSelectedLaneGrade(null)}
+        />
+      )}
+      {/* FIX: Replaced spread operator with explicit props to resolve a TypeScript error where the spread operator was disallowed on a potentially null type. */}
+      {selectedTeam && (
+        <TeamDetailModal
+          onClose={() => setSelectedTeam(null)}
+          title={selectedTeam.title}
+          teamName={selectedTeam.teamName}
+          members={selectedTeam.members}
+          songs={selectedTeam.songs}
+          isTeacherTeam={selectedTeam.isTeacherTeam}
+        />
+      )}
+    </>
+  );
+};
+
+// Roster check results grouped by kind; shown in the 📋 명단 window and in the Host panel
+const RosterIssueList: React.FC<{ events: SportsEvent[]; issues: RosterIssue[] }> = ({ events, issues }) => {
+    const eventTitle = (eventId: number) => events.find(e => e.id === eventId)?.title || `경기 ${eventId}`;
+    return (
+        <>
+            {issues.length === 0 && <p className="roster-check-ok">✅ 명단에서 문제를 찾지 못했습니다.</p>}
+            {ROSTER_ISSUE_KINDS.map(kind => {
+                const kindIssues = issues.filter(issue => issue.kind === kind);
+                if (kindIssues.length === 0) return null;
+                return (
+                    <div key={kind} className="roster-preview-issues">
+                        <h5>⚠️ {ROSTER_ISSUE_LABELS[kind]} {kindIssues.length}건</h5>
+                        <ul>
+                            {kindIssues.map((issue, index) => (
+                                <li key={index}><strong>{eventTitle(issue.eventId)}</strong> {issue.message}</li>
+                            ))}
+                        </ul>
+                    </div>
+                );
+            })}
+        </>
+    );
+};
+
+const RosterImportModal: React.FC<{
+    events: SportsEvent[];
+    savedImport: SavedRosterImport | null;
+    onCheckRosters: (events: SportsEvent[]) => RosterIssue[];
+    onApply: (saved: SavedRosterImport) => void;
+    onReset: () => void;
+    onClose: () => void;
+}> = ({ events, savedImport, onCheckRosters, onApply, onReset, onClose }) => {
+    const [activeTab, setActiveTab] = useState<'import' | 'check'>('import');
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [preview, setPreview] = useState<RosterImportPreview | null>(null);
+    const [readError, setReadError] = useState<string | null>(null);
+
+    // While previewing a file, check the rosters as they would be after applying it
+    const rosterIssues = useMemo(() => onCheckRosters(preview
+        ? events.map(event => ({ ...event, players: applyRosterImport(event.players, preview.rosters[event.id]) }))
+        : events), [events, preview, onCheckRosters]);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text().then(text => {
+            setFileName(file.name);
+            setPreview(parseRosterCsv(text, events));
+            setReadError(null);
+        }).catch(err => {
+            console.error('Failed to read roster file: ', err);
+            setReadError('파일을 읽을 수 없습니다.');
+        });
+    };
+
+    const handleDownloadTemplate = () => {
+        // Prefix a BOM so spreadsheet apps open the Korean text correctly
+        const blob = new Blob(['\uFEFF' + rostersToCsv(events)], { type: 'text/csv;charset=utf-8' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = '선수명단.csv';
+        link.click();
+        // Some browsers start the download after click() returns, so release the URL a moment later
+        setTimeout(() => URL.revokeObjectURL(link.href), 0);
+    };
+
+    const handleApply = () => {
+        if (!preview || !fileName) return;
+        onApply({ fileName, importedAt: new Date().toISOString(), rosters: preview.rosters });
+    };
+
+    const eventTitle = (eventId: number) => events.find(e => e.id === eventId)?.title || `경기 ${eventId}`;
+    const previewEventIds = preview ? Object.keys(preview.rosters).map(Number) : [];
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content roster-import-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>📋 선수 명단 가져오기</h3>
+                    <button onClick={onClose} className="modal-close-button" aria-label="닫기">&times;</button>
+                </div>
+                <div className="modal-body">
+                    <div className="tabs">
+                        <button className={`tab-button ${activeTab === 'import' ? 'active' : ''}`} onClick={() => setActiveTab('import')} aria-pressed={activeTab === 'import'}>가져오기</button>
+                        <button className={`tab-button ${activeTab === 'check' ? 'active' : ''}`} onClick={() => setActiveTab('check')} aria-pressed={activeTab === 'check'}>
+                            명단 점검{rosterIssues.length > 0 ? ` (${rosterIssues.length})` : ''}
+                        </button>
+                    </div>
+                    {activeTab === 'check' && (
+                        <div className="roster-check">
+                            {preview && <p className="roster-import-help">미리보기 중인 {fileName} 명단을 적용했을 때의 결과입니다.</p>}
+                            <RosterIssueList events={events} issues={rosterIssues} />
+                        </div>
+                    )}
+                    {activeTab === 'import' && (
+                        <>
+                            <p className="roster-import-help">
+                                <strong>학년, 반, 경기, 구분, 이름</strong> 열이 있는 CSV 파일을 선택하세요. (엑셀은 'CSV UTF-8'로 저장)<br />
+                                구분에는 주자 순번(1, 2, …) 또는 줄다리기 구분(여자/남자 선발/남자 후발/예비)을 적습니다.
+                                파일에 있는 반의 명단만 바뀌고 나머지 반은 그대로 유지됩니다.
+                            </p>
+                            <div className="roster-import-actions">
+                                <label className="json-file-picker">
+                                    <span>📂 CSV 파일 선택</span>
+                                    <input type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+                                </label>
+                                <button className="grade-action-button" onClick={handleDownloadTemplate}>현재 명단을 양식으로 내려받기</button>
+                            </div>
+                            {readError && <p className="source-error">{readError}</p>}
+
+                            {savedImport && !preview && (
+                                <div className="roster-import-current">
+                                    <span>현재 적용된 명단: <strong>{savedImport.fileName}</strong> ({new Date(savedImport.importedAt).toLocaleString('ko-KR')})</span>
+                                    <button className="grade-action-button" onClick={onReset}>기본 명단으로 되돌리기</button>
+                                </div>
+                            )}
+
+                            {preview && (
+                                <div className="roster-import-preview">
+                                    <h4>미리보기: {fileName} · 선수 {preview.playerCount}명</h4>
+                                    {previewEventIds.length === 0 && <p className="empty-player-list-message">가져올 수 있는 명단이 없습니다.</p>}
+                                    {previewEventIds.map(eventId => (
+                                        <div key={eventId} className="roster-preview-event">
+                                            <h5>{eventTitle(eventId)}</h5>
+                                            {Object.keys(preview.rosters[eventId]).sort().map(grade => (
+                                                <ul key={grade} className="roster-preview-classes">
+                                                    {Object.keys(preview.rosters[eventId][grade]).sort((a, b) => a.localeCompare(b)).map(className => {
+                                                        const data = preview.rosters[eventId][grade][className];
+                                                        const summary = Array.isArray(data)
+                                                            ? data.map((name, index) => `${index + 1}. ${name}`).join(' · ')
+                                                            : (Object.keys(TUG_OF_WAR_CATEGORY_LABELS) as (keyof TugOfWarPlayerClass)[])
+                                                                .map(category => `${TUG_OF_WAR_CATEGORY_LABELS[category]} ${data[category].length}명`).join(' · ');
+                                                        return (
+                                                            <li key={className}>
+                                                                <strong>{className}</strong> {summary}
+                                                            </li>
+                                                        );
+                                                    })}
+                                                </ul>
+                                            ))}
+                                        </div>
+                                    ))}
+                                    {preview.issues.length > 0 && (
+                                        <div className="roster-preview-issues">
+                                            <h5>⚠️ 가져오지 않는 행 {preview.issues.length}개</h5>
+                                            <ul>
+                                                {preview.issues.map((issue, index) => (
+                                                    <li key={index}><strong>{issue.rowNumber}행</strong> {issue.reason}</li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    )}
+                                    <div className="roster-import-buttons">
+                                        <button className="host-save-button" onClick={handleApply} disabled={previewEventIds.length === 0}>
+                                            {preview.issues.length > 0 ? '오류 행을 제외하고 적용' : '명단 적용'}
+                                        </button>
+                                        <button className="host-logout-button" onClick={() => { setPreview(null); setFileName(null); }}>취소</button>
+                                    </div>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Corrects a device whose clock is wrong; the offset is kept per device
+const ClockSettingsModal: React.FC<{
+    offsetMinutes: number;
+    onChange: (offsetMinutes: number) => void;
+    onClose: () => void;
+}> = ({ offsetMinutes, onChange, onClose }) => {
+    const deviceNow = new Date();
+    const correctedNow = getNow(offsetMinutes);
+    const setOffset = (value: number) => {
+        if (!Number.isInteger(value)) return;
+        onChange(Math.max(-MAX_CLOCK_OFFSET_MINUTES, Math.min(MAX_CLOCK_OFFSET_MINUTES, value)));
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>🕒 시계 보정</h3>
+                    <button onClick={onClose} className="modal-close-button" aria-label="닫기">&times;</button>
+                </div>
+                <div className="modal-body">
+                    <p className="clock-settings-hint">
+                        이 기기의 시계가 맞지 않으면 경기 상태가 잘못 표시됩니다. 실제 시각과 같아지도록 보정 값을 조정하세요.
+                    </p>
+                    <dl className="clock-readout">
+                        <dt>기기 시각</dt>
+                        <dd>{getCurrentDate(deviceNow)} {getCurrentTime(deviceNow)}</dd>
+                        <dt>보정된 시각</dt>
+                        <dd>{getCurrentDate(correctedNow)} {getCurrentTime(correctedNow)}</dd>
+                    </dl>
+                    <div className="clock-offset-controls">
+                        <button className="grade-action-button" onClick={() => setOffset(offsetMinutes - 1)}>−1분</button>
+                        <label>
+                            보정(분)
+                            <input
+                                type="number"
+                                value={offsetMinutes}
+                                min={-MAX_CLOCK_OFFSET_MINUTES}
+                                max={MAX_CLOCK_OFFSET_MINUTES}
+                                onChange={(e) => setOffset(Number(e.target.value))}
+                            />
+                        </label>
+                        <button className="grade-action-button" onClick={() => setOffset(offsetMinutes + 1)}>+1분</button>
+                        <button className="grade-action-button" onClick={() => setOffset(0)} disabled={offsetMinutes === 0}>초기화</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const HOST_TOKEN_STORAGE_KEY = 'SPORTS_DAY_HOST_TOKEN';
+
+const HostPanelModal: React.FC<{
+    relayUrl: string;
+    events: SportsEvent[];
+    cheeringScores: Scores;
+    adjustments: ScoreAdjustment[];
+    substitutions: Substitution[];
+    clockOffsetMinutes: number;
+    token: string | null;
+    onTokenChange: (token: string | null) => void;
+    onCheckRosters: (events: SportsEvent[]) => RosterIssue[];
+    onSaved: (updates: SheetUpdates) => void;
+    onClose: () => void;
+}> = ({ relayUrl, events, cheeringScores, adjustments, substitutions, clockOffsetMinutes, token, onTokenChange, onCheckRosters, onSaved, onClose }) => {
+    const [password, setPassword] = useState('');
+    const [activeTab, setActiveTab] = useState<'event' | 'cheering' | 'adjustments' | 'substitutions' | 'rosters'>('event');
+    const [selectedEventId, setSelectedEventId] = useState<number>(() => (events.find(e => e.scores) || events[0]).id);
+    const [draftScores, setDraftScores] = useState<{ [className: string]: string }>({});
+    const [entryMode, setEntryMode] = useState<'scores' | 'placements'>('placements');
+    const [draftPlacements, setDraftPlacements] = useState<{ [className: string]: string }>({});
+    const [draftAdjustment, setDraftAdjustment] = useState({ className: '', amount: '', reason: '', eventId: '' });
+    const [draftSubstitution, setDraftSubstitution] = useState({ eventId: '', className: '', slot: '', playerOut: '', playerIn: '', reason: '' });
+    const [draftTimes, setDraftTimes] = useState({ start: '', end: '' });
+    const [draftDrawSeed, setDraftDrawSeed] = useState('');
+    const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const selectedEvent = events.find(e => e.id === selectedEventId);
+    const scoreSource = activeTab === 'event' ? selectedEvent?.scores : activeTab === 'cheering' ? cheeringScores : undefined;
+    // Cheering scores may not exist yet on a fresh relay, so fall back to the class list of a scored event
+    const classNames = useMemo(() => {
+        const classes = Object.keys(scoreSource && Object.keys(scoreSource).length > 0 ? scoreSource : (events.find(e => e.scores)?.scores || {}));
+        return classes.sort((a, b) => a.localeCompare(b));
+    }, [scoreSource, events]);
+
+    // Reset the draft only when the host switches tabs or events, so background polling
+    // does not overwrite what is being typed.
+    useEffect(() => {
+        const draft: { [className: string]: string } = {};
+        const placementDraft: { [className: string]: string } = {};
+        classNames.forEach(className => {
+            draft[className] = String(scoreSource?.[className] ?? 0);
+            const placement = activeTab === 'event' ? selectedEvent?.placementScores?.[className] : undefined;
+            placementDraft[className] = placement ? (placement.disqualified ? 'DQ' : String(placement.rank)) : '';
+        });
+        setDraftScores(draft);
+        setDraftPlacements(placementDraft);
+        setDraftTimes({ start: selectedEvent?.actualTimes?.start || '', end: selectedEvent?.actualTimes?.end || '' });
+        setMessage(null);
+    }, [activeTab, selectedEventId]);
+
+    const handleAuthError = (e: unknown) => {
+        if (e instanceof RelayAuthError) onTokenChange(null);
+        setMessage({ type: 'error', text: e instanceof Error ? e.message : '저장에 실패했습니다.' });
+    };
+
+    const handleLogin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setMessage(null);
+        try {
+            const newToken = await relayService.login(relayUrl, password);
+            onTokenChange(newToken);
+            setPassword('');
+        } catch (err) {
+            setMessage({ type: 'error', text: err instanceof Error ? err.message : '로그인에 실패했습니다.' });
+        }
+    };
+
+    const handleLogout = () => onTokenChange(null);
+
+    const handleSaveScores = async () => {
+        if (!token) return;
+        const scores: Scores = {};
+        for (const className of Object.keys(draftScores)) {
+            const value = draftScores[className];
+            if (!INTEGER_PATTERN.test(value.trim())) {
+                setMessage({ type: 'error', text: `${className} 점수 "${value}"이(가) 숫자가 아닙니다.` });
+                return;
+            }
+            scores[className] = parseInt(value, 10);
+        }
+
+        setIsSaving(true);
+        try {
+            const updates = activeTab === 'event'
+                ? await relayService.saveEventScores(relayUrl, token, selectedEventId, scores)
+                : await relayService.saveCheeringScores(relayUrl, token, scores);
+            onSaved(updates);
+            setMessage({ type: 'success', text: '점수를 저장했습니다.' });
+        } catch (err) {
+            handleAuthError(err);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSavePlacements = async () => {
+        if (!token) return;
+        const placements: Placements = {};
+        Object.keys(draftPlacements).forEach(className => {
+            const placement = parsePlacement(draftPlacements[className]);
+            if (placement !== null) placements[className] = placement;
+        });
+
+        setIsSaving(true);
+        try {
+            onSaved(await relayService.saveEventPlacements(relayUrl, token, selectedEventId, placements));
+            setMessage({ type: 'success', text: '순위를 저장했습니다. 점수는 순위에 따라 자동으로 계산됩니다.' });
+        } catch (err) {
+            handleAuthError(err);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const saveAdjustment = async (write: (token: string) => Promise<SheetUpdates>, successText: string) => {
+        if (!token) return false;
+        setIsSaving(true);
+        try {
+            onSaved(await write(token));
+            setMessage({ type: 'success', text: successText });
+            return true;
+        } catch (err) {
+            handleAuthError(err);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleAddAdjustment = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const { className, amount, reason, eventId } = draftAdjustment;
+        if (!className || !INTEGER_PATTERN.test(amount.trim()) || parseInt(amount, 10) === 0 || !reason.trim()) {
+            setMessage({ type: 'error', text: '반, 0이 아닌 정수 점수(예: -10), 사유를 모두 입력해주세요.' });
+            return;
+        }
+        const adjustment: ScoreAdjustment = {
+            className,
+            amount: parseInt(amount, 10),
+            reason: reason.trim(),
+            eventId: eventId ? Number(eventId) : undefined,
+            at: new Date().toISOString(),
+        };
+        if (await saveAdjustment(token => relayService.addAdjustment(relayUrl, token, adjustment), `${className} ${formatDelta(adjustment.amount)}점을 기록했습니다.`)) {
+            setDraftAdjustment(prev => ({ ...prev, amount: '', reason: '' }));
+        }
+    };
+
+    const handleRemoveAdjustment = (target: ScoreAdjustment) => {
+        const { id } = target;
+        if (!id || !window.confirm(`${target.className} ${formatDelta(target.amount)}점 (${target.reason})을(를) 삭제할까요?`)) return;
+        saveAdjustment(token => relayService.removeAdjustment(relayUrl, token, id), '가감점을 삭제했습니다.');
+    };
+
+    const saveSubstitution = async (write: (token: string) => Promise<SheetUpdates>, successText: string) => {
+        if (!token) return false;
+        setIsSaving(true);
+        try {
+            onSaved(await write(token));
+            setMessage({ type: 'success', text: successText });
+            return true;
+        } catch (err) {
+            handleAuthError(err);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // The form offers the slots of the chosen class's current lineup, so the player out is always on the roster
+    const substitutionEvent = events.find(event => String(event.id) === draftSubstitution.eventId);
+    const substitutionClasses = substitutionEvent?.players
+        ? Object.keys(substitutionEvent.players).flatMap(grade => Object.keys(substitutionEvent.players![grade])).sort((a, b) => a.localeCompare(b))
+        : [];
+    const substitutionGrade = draftSubstitution.className.split('-')[0];
+    const substitutionRoster = substitutionEvent?.players?.[substitutionGrade]?.[draftSubstitution.className];
+    const substitutionSlots: { value: string; label: string }[] = Array.isArray(substitutionRoster)
+        ? substitutionRoster.map((name, index) => ({ value: String(index + 1), label: `${index + 1}번 주자 · ${name}` }))
+        : substitutionRoster ? SUBSTITUTION_TUG_OF_WAR_CATEGORIES.map(category => ({ value: category, label: TUG_OF_WAR_CATEGORY_LABELS[category] })) : [];
+    const substitutionOutOptions = substitutionRoster && !Array.isArray(substitutionRoster) && draftSubstitution.slot
+        ? substitutionRoster[draftSubstitution.slot as keyof TugOfWarPlayerClass] || []
+        : [];
+    const appliedSubstitutions = useMemo(() => new Set(events.flatMap(event => event.substitutions || [])), [events]);
+    // Checked on the rosters in effect, substitutions included, so the host sees problems before a match starts
+    const rosterIssues = useMemo(() => onCheckRosters(events), [events, onCheckRosters]);
+
+    const handleSubstitutionSlotChange = (slot: string) => {
+        const playerOut = Array.isArray(substitutionRoster) ? substitutionRoster[parseInt(slot, 10) - 1] || '' : '';
+        setDraftSubstitution(prev => ({ ...prev, slot, playerOut }));
+    };
+
+    const handleAddSubstitution = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const { eventId, className, slot, playerOut, playerIn, reason } = draftSubstitution;
+        if (!eventId || !className || !slot || !playerOut || !playerIn.trim() || !reason.trim()) {
+            setMessage({ type: 'error', text: '경기, 반, 구분, 나간 선수, 들어온 선수, 사유를 모두 입력해주세요.' });
+            return;
+        }
+        if (playerIn.trim() === playerOut) {
+            setMessage({ type: 'error', text: '나간 선수와 들어온 선수가 같습니다.' });
+            return;
+        }
+        const substitution: Substitution = {
+            eventId: Number(eventId),
+            className,
+            slot,
+            playerOut,
+            playerIn: playerIn.trim(),
+            reason: reason.trim(),
+            at: getNow(clockOffsetMinutes).toISOString(),
+        };
+        if (await saveSubstitution(token => relayService.addSubstitution(relayUrl, token, substitution), `${className} ${playerOut} → ${substitution.playerIn} 교체를 기록했습니다.`)) {
+            setDraftSubstitution(prev => ({ ...prev, slot: '', playerOut: '', playerIn: '', reason: '' }));
+        }
+    };
+
+    const handleRemoveSubstitution = (target: Substitution) => {
+        const { id } = target;
+        if (!id || !window.confirm(`${target.className} ${target.playerOut} → ${target.playerIn} 교체를 삭제할까요? 명단이 교체 전으로 돌아갑니다.`)) return;
+        saveSubstitution(token => relayService.removeSubstitution(relayUrl, token, id), '교체 기록을 삭제했습니다.');
+    };
+
+    const classNamesByGrade = useMemo(() => classNames.reduce((acc: Record<string, string[]>, className) => {
+        const grade = className.split('-')[0];
+        if (!acc[grade]) acc[grade] = [];
+        acc[grade].push(className);
+        return acc;
+    }, {} as Record<string, string[]>), [classNames]);
+
+    const handleStatusChange = async (status: ManualStatus | null) => {
+        if (!token) return;
+        setIsSaving(true);
+        try {
+            onSaved(await relayService.saveEventStatus(relayUrl, token, selectedEventId, status));
+            setMessage({ type: 'success', text: status ? `상태를 '${status}'(으)로 변경했습니다.` : '시간표 기준 자동 상태로 되돌렸습니다.' });
+        } catch (err) {
+            handleAuthError(err);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleHeatStatusChange = async (heat: HeatProgress, status: ManualStatus | null) => {
+        if (!token) return;
+        setIsSaving(true);
+        try {
+            onSaved(await relayService.saveHeatStatus(relayUrl, token, selectedEventId, heat.id, status));
+            const heatTitle = heat.title || `${heat.grade}학년`;
+            setMessage({ type: 'success', text: status ? `${heatTitle} 상태를 '${status}'(으)로 변경했습니다.` : `${heatTitle} 상태를 자동으로 되돌렸습니다.` });
+        } catch (err) {
+            handleAuthError(err);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSaveActualTimes = async (times: ActualTimes) => {
+        if (!token) return;
+        setIsSaving(true);
+        try {
+            onSaved(await relayService.saveActualTimes(relayUrl, token, selectedEventId, times));
+            setDraftTimes({ start: times.start || '', end: times.end || '' });
+            setMessage({ type: 'success', text: times.start || times.end ? '실제 시각을 저장했습니다. 이후 경기 예상 시각에 반영됩니다.' : '실제 시각 기록을 지웠습니다.' });
+        } catch (err) {
+            handleAuthError(err);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+    // A blank seed draws a fresh one; entering a published seed reproduces that draw
+    const handleMissionDraw = async (withdraw = false) => {
+        if (!token || !selectedEvent) return;
+        const seedText = draftDrawSeed.trim();
+        if (!withdraw && seedText && !DRAW_SEED_PATTERN.test(seedText)) {
+            setMessage({ type: 'error', text: '추첨 번호는 9자리 이하의 숫자여야 합니다.' });
+            return;
+        }
+        if (withdraw
+            ? !window.confirm('미션 추첨 결과를 내릴까요? 모든 화면에서 반별 미션이 사라집니다.')
+            : selectedEvent.missionDraw && !window.confirm(`이미 추첨 번호 ${selectedEvent.missionDraw.seed}(으)로 추첨했습니다. 다시 추첨할까요?`)) {
+            return;
+        }
+        const draw: MissionDraw | null = withdraw ? null : {
+            seed: seedText ? parseInt(seedText, 10) : createDrawSeed(),
+            at: getNow(clockOffsetMinutes).toISOString(),
+            inputHash: selectedEvent.missionInputHash,
+        };
+        setIsSaving(true);
+        try {
+            onSaved(await relayService.saveMissionDraw(relayUrl, token, selectedEventId, draw));
+            setDraftDrawSeed('');
+            setMessage({ type: 'success', text: draw ? `추첨 번호 ${draw.seed}(으)로 미션을 추첨해 공개했습니다.` : '미션 추첨 결과를 내렸습니다.' });
+        } catch (err) {
+            handleAuthError(err);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const draftActualTimes: ActualTimes = { start: draftTimes.start || undefined, end: draftTimes.end || undefined };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content host-panel-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>🔐 Host 모드</h3>
+                    <button onClick={onClose} className="modal-close-button" aria-label="닫기">&times;</button>
+                </div>
+                <div className="modal-body">
+                    {!token ? (
+                        <form className="host-login-form" onSubmit={handleLogin}>
+                            <p>점수를 입력하려면 중계 서버의 호스트 비밀번호를 입력하세요.</p>
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                placeholder="호스트 비밀번호"
+                                aria-label="호스트 비밀번호"
+                                required
+                            />
+                            <button type="submit">로그인</button>
+                        </form>
+                    ) : (
+                        <>
+                            <div className="tabs host-tabs">
+                                <button className={`tab-button ${activeTab === 'event' ? 'active' : ''}`} onClick={() => setActiveTab('event')} aria-pressed={activeTab === 'event'}>경기 점수 · 상태</button>
+                                <button className={`tab-button ${activeTab === 'cheering' ? 'active' : ''}`} onClick={() => setActiveTab('cheering')} aria-pressed={activeTab === 'cheering'}>질서 응원 점수</button>
+                                <button className={`tab-button ${activeTab === 'adjustments' ? 'active' : ''}`} onClick={() => setActiveTab('adjustments')} aria-pressed={activeTab === 'adjustments'}>가감점</button>
+                                <button className={`tab-button ${activeTab === 'substitutions' ? 'active' : ''}`} onClick={() => setActiveTab('substitutions')} aria-pressed={activeTab === 'substitutions'}>선수 교체</button>
+                                <button className={`tab-button ${activeTab === 'rosters' ? 'active' : ''}`} onClick={() => setActiveTab('rosters')} aria-pressed={activeTab === 'rosters'}>
+                                    명단 점검{rosterIssues.length > 0 ? ` (${rosterIssues.length})` : ''}
+                                </button>
+                            </div>
+                            {activeTab === 'event' && selectedEvent && (
+                                <div className="host-event-controls">
+                                    <select value={selectedEventId} onChange={(e) => setSelectedEventId(Number(e.target.value))} aria-label="경기 선택">
+                                        {events.map(event => (
+                                            <option key={event.id} value={event.id}>{event.startTime} {event.title}</option>
+                                        ))}
+                                    </select>
+                                    <div className="host-status-buttons">
+                                        <span>현재 상태: <strong>{selectedEvent.status}</strong>{selectedEvent.manualStatus ? ` (수동: ${selectedEvent.manualStatus})` : ' (자동)'}</span>
+                                        {(['활성', '종료', '예정'] as ManualStatus[]).map(status => (
+                                            <button
+                                                key={status}
+                                                className={`grade-action-button ${selectedEvent.manualStatus === status ? 'active' : ''}`}
+                                                onClick={() => handleStatusChange(status)}
+                                                disabled={isSaving}
+                                            >
+                                                {status}
+                                            </button>
+                                        ))}
+                                        <button className="grade-action-button" onClick={() => handleStatusChange(null)} disabled={isSaving || !selectedEvent.manualStatus}>
+                                            자동
+                                        </button>
+                                    </div>
+                                    {selectedEvent.heats?.map(heat => (
+                                        <div key={heat.id} className="host-status-buttons host-heat-status">
+                                            <span>{heat.title || `${heat.grade}학년`} ({heat.schedule.startTime}): <strong>{heat.status}</strong>{heat.manualStatus ? ` (수동: ${heat.manualStatus})` : ' (자동)'}</span>
+                                            {(['활성', '종료', '예정'] as ManualStatus[]).map(status => (
+                                                <button
+                                                    key={status}
+                                                    className={`grade-action-button ${heat.manualStatus === status ? 'active' : ''}`}
+                                                    onClick={() => handleHeatStatusChange(heat, status)}
+                                                    disabled={isSaving}
+                                                >
+                                                    {status}
+                                                </button>
+                                            ))}
+                                            <button className="grade-action-button" onClick={() => handleHeatStatusChange(heat, null)} disabled={isSaving || !heat.manualStatus}>
+                                                자동
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <div className="host-actual-times">
+                                        <span>실제 시각{selectedEvent.schedule.delayMinutes > 0 ? ` (${selectedEvent.schedule.delayMinutes}분 늦게 시작)` : ''}:</span>
+                                        <label>
+                                            시작
+                                            <input type="time" value={draftTimes.start} onChange={(e) => setDraftTimes(current => ({ ...current, start: e.target.value }))} />
+                                        </label>
+                                        <button className="grade-action-button" onClick={() => handleSaveActualTimes({ ...draftActualTimes, start: getCurrentTime(getNow(clockOffsetMinutes)) })} disabled={isSaving}>
+                                            지금 시작
+                                        </button>
+                                        <label>
+                                            종료
+                                            <input type="time" value={draftTimes.end} onChange={(e) => setDraftTimes(current => ({ ...current, end: e.target.value }))} />
+                                        </label>
+                                        <button className="grade-action-button" onClick={() => handleSaveActualTimes({ ...draftActualTimes, end: getCurrentTime(getNow(clockOffsetMinutes)) })} disabled={isSaving}>
+                                            지금 종료
+                                        </button>
+                                        <button className="grade-action-button" onClick={() => handleSaveActualTimes(draftActualTimes)} disabled={isSaving}>
+                                            저장
+                                        </button>
+                                        <button className="grade-action-button" onClick={() => handleSaveActualTimes({})} disabled={isSaving || !selectedEvent.actualTimes}>
+                                            지우기
+                                        </button>
+                                    </div>
+                                    {selectedEvent.missions && (
+                                        <div className="host-actual-times host-mission-draw">
+                                            <span>
+                                                미션 추첨: {selectedEvent.missionDraw ? <strong>추첨 번호 {selectedEvent.missionDraw.seed}</strong> : '아직 추첨하지 않았습니다.'}
+                                                {selectedEvent.missionDrawOutdated && <small className="mission-draw-outdated"> ⚠️ 추첨 뒤 미션이나 반이 바뀌어 배정이 달라졌습니다. 다시 추첨하세요.</small>}
+                                            </span>
+                                            <input
+                                                type="text"
+                                                inputMode="numeric"
+                                                value={draftDrawSeed}
+                                                onChange={(e) => setDraftDrawSeed(e.target.value)}
+                                                placeholder="추첨 번호 (비우면 무작위)"
+                                                aria-label="추첨 번호"
+                                            />
+                                            <button className="grade-action-button" onClick={() => handleMissionDraw()} disabled={isSaving}>
+                                                🎲 추첨 후 공개
+                                            </button>
+                                            <button className="grade-action-button" onClick={() => handleMissionDraw(true)} disabled={isSaving || !selectedEvent.missionDraw}>
+                                                추첨 내리기
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                            {activeTab === 'event' && selectedEvent?.scores && (
+                                <div className="tabs sub-tabs host-entry-tabs">
+                                    <button className={`tab-button ${entryMode === 'placements' ? 'active' : ''}`} onClick={() => setEntryMode('placements')} aria-pressed={entryMode === 'placements'}>순위 입력</button>
+                                    <button className={`tab-button ${entryMode === 'scores' ? 'active' : ''}`} onClick={() => setEntryMode('scores')} aria-pressed={entryMode === 'scores'}>점수 직접 입력</button>
+                                </div>
+                            )}
+                            {activeTab === 'event' && selectedEvent?.scores && entryMode === 'placements' ? (
+                                <>
+                                    {Object.keys(classNamesByGrade).map(grade => (
+                                        <div key={grade} className="host-placement-grade">
+                                            <h4>{grade}학년</h4>
+                                            <div className="host-score-grid">
+                                                {classNamesByGrade[grade].map(className => (
+                                                    <label key={className} className="host-score-input">
+                                                        <span>{className}</span>
+                                                        <select
+                                                            value={draftPlacements[className] ?? ''}
+                                                            onChange={(e) => setDraftPlacements(prev => ({ ...prev, [className]: e.target.value }))}
+                                                        >
+                                                            <option value="">-</option>
+                                                            {classNamesByGrade[grade].map((_, index) => (
+                                                                <option key={index} value={String(index + 1)}>{index + 1}등</option>
+                                                            ))}
+                                                            <option value="DQ">실격</option>
+                                                        </select>
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    ))}
+                                    <p className="host-placement-note">
+                                        {(selectedEvent.pointTable || DEFAULT_POINT_TABLE).placements.map((points, index) => `${index + 1}등 ${points}점`).join(' · ')}
+                                        {` · 참가 ${(selectedEvent.pointTable || DEFAULT_POINT_TABLE).participation}점 · 동순위는 같은 점수`}
+                                    </p>
+                                    <button className="host-save-button" onClick={handleSavePlacements} disabled={isSaving}>
+                                        {isSaving ? '저장 중...' : '순위 저장'}
+                                    </button>
+                                </>
+                            ) : activeTab === 'adjustments' ? (
+                                <>
+                                    <form className="host-adjustment-form" onSubmit={handleAddAdjustment}>
+                                        <select
+                                            value={draftAdjustment.className}
+                                            onChange={(e) => setDraftAdjustment(prev => ({ ...prev, className: e.target.value }))}
+                                            aria-label="반 선택"
+                                        >
+                                            <option value="">반 선택</option>
+                                            {classNames.map(className => <option key={className} value={className}>{className}</option>)}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            inputMode="numeric"
+                                            step={1}
+                                            value={draftAdjustment.amount}
+                                            onChange={(e) => setDraftAdjustment(prev => ({ ...prev, amount: e.target.value }))}
+                                            placeholder="점수 (예: -10)"
+                                            aria-label="가감 점수"
+                                        />
+                                        <select
+                                            value={draftAdjustment.eventId}
+                                            onChange={(e) => setDraftAdjustment(prev => ({ ...prev, eventId: e.target.value }))}
+                                            aria-label="관련 경기"
+                                        >
+                                            <option value="">관련 경기 없음</option>
+                                            {events.filter(event => event.scores).map(event => (
+                                                <option key={event.id} value={event.id}>{event.title}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="text"
+                                            value={draftAdjustment.reason}
+                                            onChange={(e) => setDraftAdjustment(prev => ({ ...prev, reason: e.target.value }))}
+                                            placeholder="사유 (예: 줄다리기 규칙 위반)"
+                                            aria-label="사유"
+                                        />
+                                        <button type="submit" className="host-save-button" disabled={isSaving}>
+                                            {isSaving ? '저장 중...' : '가감점 추가'}
+                                        </button>
+                                    </form>
+                                    {adjustments.length > 0 ? (
+                                        <ul className="host-adjustment-list">
+                                            {adjustments.map((adjustment, index) => (
+                                                <li key={adjustment.id || index}>
+                                                    <span>
+                                                        <strong>{adjustment.className} {formatDelta(adjustment.amount)}점</strong> {adjustment.reason}
+                                                        {adjustment.eventId !== undefined && ` · ${events.find(event => event.id === adjustment.eventId)?.title || `경기 ${adjustment.eventId}`}`}
+                                                        {adjustment.at && <small> ({formatAdjustmentTime(adjustment.at)})</small>}
+                                                    </span>
+                                                    <button className="grade-action-button" onClick={() => handleRemoveAdjustment(adjustment)} disabled={isSaving || !adjustment.id}>삭제</button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    ) : (
+                                        <p className="no-scores-message">기록된 가감점이 없습니다.</p>
+                                    )}
+                                </>
+                            ) : activeTab === 'substitutions' ? (
+                                <>
+                                    <form className="host-adjustment-form host-substitution-form" onSubmit={handleAddSubstitution}>
+                                        <select
+                                            value={draftSubstitution.eventId}
+                                            onChange={(e) => setDraftSubstitution(prev => ({ ...prev, eventId: e.target.value, className: '', slot: '', playerOut: '' }))}
+                                            aria-label="경기 선택"
+                                        >
+                                            <option value="">경기 선택</option>
+                                            {events.filter(event => event.players).map(event => (
+                                                <option key={event.id} value={event.id}>{event.title}</option>
+                                            ))}
+                                        </select>
+                                        <select
+                                            value={draftSubstitution.className}
+                                            onChange={(e) => setDraftSubstitution(prev => ({ ...prev, className: e.target.value, slot: '', playerOut: '' }))}
+                                            aria-label="반 선택"
+                                            disabled={!substitutionEvent}
+                                        >
+                                            <option value="">반 선택</option>
+                                            {substitutionClasses.map(className => <option key={className} value={className}>{className}</option>)}
+                                        </select>
+                                        <select
+                                            value={draftSubstitution.slot}
+                                            onChange={(e) => handleSubstitutionSlotChange(e.target.value)}
+                                            aria-label="교체 구분"
+                                            disabled={substitutionSlots.length === 0}
+                                        >
+                                            <option value="">구분 선택</option>
+                                            {substitutionSlots.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                                        </select>
+                                        {!Array.isArray(substitutionRoster) && (
+                                            <select
+                                                value={draftSubstitution.playerOut}
+                                                onChange={(e) => setDraftSubstitution(prev => ({ ...prev, playerOut: e.target.value }))}
+                                                aria-label="나간 선수"
+                                                disabled={substitutionOutOptions.length === 0}
+                                            >
+                                                <option value="">나간 선수</option>
+                                                {substitutionOutOptions.map(name => <option key={name} value={name}>{name}</option>)}
+                                            </select>
+                                        )}
+                                        <input
+                                            type="text"
+                                            list="host-substitution-reserves"
+                                            value={draftSubstitution.playerIn}
+                                            onChange={(e) => setDraftSubstitution(prev => ({ ...prev, playerIn: e.target.value }))}
+                                            placeholder="들어온 선수"
+                                            aria-label="들어온 선수"
+                                        />
+                                        <datalist id="host-substitution-reserves">
+                                            {substitutionRoster && !Array.isArray(substitutionRoster) && substitutionRoster.reserve.map(name => <option key={name} value={name} />)}
+                                        </datalist>
+                                        <input
+                                            type="text"
+                                            value={draftSubstitution.reason}
+                                            onChange={(e) => setDraftSubstitution(prev => ({ ...prev, reason: e.target.value }))}
+                                            placeholder="사유 (예: 발목 부상)"
+                                            aria-label="사유"
+                                        />
+                                        <button type="submit" className="host-save-button" disabled={isSaving}>
+                                            {isSaving ? '저장 중...' : '교체 기록'}
+                                        </button>
+                                    </form>
+                                    {substitutions.length > 0 ? (
+                                        <ul className="host-adjustment-list">
+                                            {substitutions.map((substitution, index) => (
+                                                <li key={substitution.id || index}>
+                                                    <span>
+                                                        <strong>{substitution.className} {formatSubstitutionSlot(substitution.slot)}: {substitution.playerOut} → {substitution.playerIn}</strong> {substitution.reason}
+                                                        {` · ${events.find(event => event.id === substitution.eventId)?.title || `경기 ${substitution.eventId}`}`}
+                                                        {substitution.at && <small> ({formatAdjustmentTime(substitution.at)})</small>}
+                                                        {!appliedSubstitutions.has(substitution) && <small className="host-substitution-skipped"> ⚠️ 명단에서 나간 선수를 찾지 못해 반영되지 않았습니다.</small>}
+                                                    </span>
+                                                    <button className="grade-action-button" onClick={() => handleRemoveSubstitution(substitution)} disabled={isSaving || !substitution.id}>삭제</button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    ) : (
+                                        <p className="no-scores-message">기록된 교체가 없습니다.</p>
+                                    )}
+                                </>
+                            ) : activeTab === 'rosters' ? (
+                                <div className="roster-check">
+                                    <RosterIssueList events={events} issues={rosterIssues} />
+                                </div>
+                            ) : (activeTab === 'cheering' || selectedEvent?.scores) ? (
+                                <>
+                                    <div className="host-score-grid">
+                                        {classNames.map(className => (
+                                            <label key={className} className="host-score-input">
+                                                <span>{className}</span>
+                                                <input
+                                                    type="number"
+                                                    inputMode="numeric"
+                                                    step={1}
+                                                    value={draftScores[className] ?? ''}
+                                                    onChange={(e) => setDraftScores(prev => ({ ...prev, [className]: e.target.value }))}
+                                                />
+                                            </label>
+                                        ))}
+                                    </div>
+                                    <button className="host-save-button" onClick={handleSaveScores} disabled={isSaving}>
+                                        {isSaving ? '저장 중...' : '점수 저장'}
+                                    </button>
+                                </>
+                            ) : (
+                                <p className="no-scores-message">이 경기는 점수를 기록하지 않습니다.</p>
+                            )}
+                            <button className="host-logout-button" onClick={handleLogout}>로그아웃</button>
+                        </>
+                    )}
+                    {message && <p className={`host-message ${message.type}`}>{message.text}</p>}
                 </div>
-            )}
-            {event.scores && 
-              <Scoreboard 
-                scores={event.scores} 
-                eventTitle={event.title}
-                missions={event.missions}
-                players={event.players}
-                onShowMission={setSelectedMissionGrade}
-                onShowPlayers={setSelectedPlayerListGrade}
-                onShowLanes={setSelectedLaneGrade}
-              />
-            }
-          </div>
-        )}
-      </div>
-      {selectedMissionGrade && event.missions && event.missions[selectedMissionGrade] && (
-        <MissionModal 
-          grade={selectedMissionGrade}
-          missions={event.missions[selectedMissionGrade]} 
-          onClose={() => setSelectedMissionGrade(null)} 
-        />
-      )}
-      {selectedPlayerListGrade && event.players && event.players[selectedPlayerListGrade] && (
-        <PlayerListModal
-          grade={selectedPlayerListGrade}
-          playersForGrade={event.players[selectedPlayerListGrade]}
-          onClose={() => setSelectedPlayerListGrade(null)}
-          eventTitle={event.title}
-        />
-      )}
-      {selectedLaneGrade && (
-        <LaneAssignmentModal
-            grade={selectedLaneGrade}
-            eventTitle={event.title}
-            onClose={() => setSelectedLaneGrade(null)}
-        />
-      )}
-      {/* FIX: Replaced spread operator with explicit props to resolve a TypeScript error where the spread operator was disallowed on a potentially null type. */}
-      {selectedTeam && (
-        <TeamDetailModal
-          onClose={() => setSelectedTeam(null)}
-          title={selectedTeam.title}
-          teamName={selectedTeam.teamName}
-          members={selectedTeam.members}
-          songs={selectedTeam.songs}
-          isTeacherTeam={selectedTeam.isTeacherTeam}
-        />
-      )}
-    </>
-  );
+            </div>
+        </div>
+    );
 };
 
-const SportsDayApp: React.FC<{ sheetUrl: string; onResetUrl: () => void; }> = ({ sheetUrl, onResetUrl }) => {
-  // Static base data, calculated once.
-  const initialEvents = useMemo(() => getInitialEvents(), []);
+const POLL_INTERVAL_MS = 10000;
+const PUSH_RETRY_MS = 30000;
+const CATALOG_REFRESH_MS = 60000;
+
+const SportsDayApp: React.FC<{ dataSource: DataSourceConfig; catalogUrl: string | null; onResetUrl: () => void; }> = ({ dataSource, catalogUrl, onResetUrl }) => {
+  // Static base data: the built-in program, replaced by the published catalog when one is configured.
+  const [initialEvents, setInitialEvents] = useState<SportsEventData[]>(getInitialEvents);
+  const [catalogIssues, setCatalogIssues] = useState<CatalogIssue[]>([]);
+  const [standingsConfig, setStandingsConfig] = useState<StandingsConfig>(DEFAULT_STANDINGS_CONFIG);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  // Read through a ref so a catalog refresh does not restart the update channel
+  const knownEventIdsRef = useRef<number[]>(initialEvents.map(event => event.id));
+  const source = useMemo(() => createEventDataSource(dataSource), [dataSource]);
 
   // State for dynamic data fetched from the sheet. This holds the latest snapshot.
   const [fetchedUpdates, setFetchedUpdates] = useState<SheetUpdates>({ 
@@ -1207,9 +5872,29 @@ const SportsDayApp: React.FC<{ sheetUrl: string; onResetUrl: () => void; }> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedId, setExpandedId] = useState<number | null>(null);
-  const [isBracketModalOpen, setIsBracketModalOpen] = useState(false);
+  const [bracketEventId, setBracketEventId] = useState<number | null>(null);
   const [isAnnouncerModalOpen, setIsAnnouncerModalOpen] = useState(false);
+  const [isHostPanelOpen, setIsHostPanelOpen] = useState(false);
+  const [hostToken, setHostToken] = useState<string | null>(() => sessionStorage.getItem(HOST_TOKEN_STORAGE_KEY));
+  const [isRosterImportOpen, setIsRosterImportOpen] = useState(false);
+  const [isClockSettingsOpen, setIsClockSettingsOpen] = useState(false);
+  const [clockOffsetMinutes, setClockOffsetMinutes] = useState(loadClockOffsetMinutes);
+  // Statuses and the projected schedule are derived from this, so they re-evaluate every minute
+  const [now, setNow] = useState(() => getNow(clockOffsetMinutes));
+  const [rosterImport, setRosterImport] = useState<SavedRosterImport | null>(loadSavedRosterImport);
+  const [reminders, setReminders] = useState<SavedReminders>(loadSavedReminders);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | null>(
+    () => (canNotify() ? Notification.permission : null)
+  );
+  const [updateMode, setUpdateMode] = useState<UpdateMode>('connecting');
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<Date | null>(null);
   const fetchInProgress = useRef(false);
+  const historySourceKey = useMemo(() => getDataSourceKey(dataSource), [dataSource]);
+  const [savedScoreHistory] = useState(() => loadScoreHistory(historySourceKey));
+  // The saved snapshot lives in a ref; only the change list drives rendering
+  const scoreHistoryRef = useRef<SavedScoreHistory | null>(savedScoreHistory);
+  const [scoreChanges, setScoreChanges] = useState<ScoreChange[]>(savedScoreHistory?.changes || []);
+  const [freshChanges, setFreshChanges] = useState<ScoreChange[]>([]);
 
   // Data fetching and state update logic
   const loadEvents = useCallback(async ({ isInitialLoad = false } = {}) => {
@@ -1225,7 +5910,7 @@ const SportsDayApp: React.FC<{ sheetUrl: string; onResetUrl: () => void; }> = ({
     }
 
     try {
-      const newUpdates = await eventService.fetchEventUpdates(sheetUrl);
+      const newUpdates = await source.fetchEventUpdates(knownEventIdsRef.current);
       
       setFetchedUpdates(prevUpdates => {
         // To enhance stability against temporary data source issues (e.g., partial CSV loads),
@@ -1243,13 +5928,28 @@ const SportsDayApp: React.FC<{ sheetUrl: string; onResetUrl: () => void; }> = ({
             Object.keys(prevUpdates.cheeringScores).length > 0
           ) ? prevUpdates.cheeringScores : newUpdates.cheeringScores;
 
+        const finalPlacementsByEvent = (
+            !isInitialLoad &&
+            Object.keys(newUpdates.placementsByEvent || {}).length === 0 &&
+            Object.keys(prevUpdates.placementsByEvent || {}).length > 0
+          ) ? prevUpdates.placementsByEvent : newUpdates.placementsByEvent;
+
         return {
           scoresByEvent: finalScoresByEvent,
+          placementsByEvent: finalPlacementsByEvent,
           manualStatuses: newUpdates.manualStatuses, // Always take the latest statuses
+          actualTimes: newUpdates.actualTimes, // Like statuses, a cleared time must show
           cheeringScores: finalCheeringScores,
+          adjustments: newUpdates.adjustments, // Always take the latest; removing the last one must show
+          bracketResults: newUpdates.bracketResults,
+          heatStatuses: newUpdates.heatStatuses,
+          substitutions: newUpdates.substitutions, // Like adjustments, removing the last one must show
+          missionDraws: newUpdates.missionDraws,
+          skippedRows: newUpdates.skippedRows,
         };
       });
 
+      setLastUpdatedAt(new Date());
       setError(null);
     } catch (e: any) {
       if (isInitialLoad) {
@@ -1260,38 +5960,323 @@ const SportsDayApp: React.FC<{ sheetUrl: string; onResetUrl: () => void; }> = ({
       if (isInitialLoad) setIsLoading(false);
       fetchInProgress.current = false;
     }
-  }, [sheetUrl]);
+  }, [source]);
+
+  useEffect(() => {
+    knownEventIdsRef.current = initialEvents.map(event => event.id);
+  }, [initialEvents]);
+
+  useEffect(() => {
+    if (!catalogUrl) return;
+
+    const loadCatalog = async () => {
+      try {
+        const { events: catalogEvents, issues, standings } = await catalogService.fetchCatalog(catalogUrl);
+        setInitialEvents(catalogEvents);
+        setCatalogIssues(issues);
+        setStandingsConfig(standings);
+        setCatalogError(null);
+      } catch (e: any) {
+        // Keep showing the last good program (or the built-in one) when the catalog is unreachable
+        console.error(e);
+        setCatalogError(e.message || '경기 프로그램을 불러오지 못해 기본 일정을 표시합니다.');
+      }
+    };
+
+    loadCatalog();
+    const catalogInterval = setInterval(loadCatalog, CATALOG_REFRESH_MS);
+    return () => clearInterval(catalogInterval);
+  }, [catalogUrl]);
+
+  // Tick on each minute boundary rather than every 60s from mount, and catch up at once
+  // when a backgrounded tab (whose timers the browser throttles) becomes visible again
+  useEffect(() => {
+    let timeoutId: ReturnType<typeof setTimeout>;
+    const tick = () => {
+      const current = getNow(clockOffsetMinutes);
+      setNow(current);
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(tick, msUntilNextMinute(current));
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') tick();
+    };
+    tick();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearTimeout(timeoutId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [clockOffsetMinutes]);
+
+  const handleClockOffsetChange = (offsetMinutes: number) => {
+    setClockOffsetMinutes(offsetMinutes);
+    if (offsetMinutes === 0) {
+      localStorage.removeItem(CLOCK_OFFSET_STORAGE_KEY);
+    } else {
+      localStorage.setItem(CLOCK_OFFSET_STORAGE_KEY, String(offsetMinutes));
+    }
+  };
+
+  const adjustments = useMemo(() => fetchedUpdates.adjustments || [], [fetchedUpdates.adjustments]);
 
   // Combine static initial data with dynamic fetched data for rendering.
   const events: SportsEvent[] = useMemo(() => {
-    const currentTime = getCurrentTime();
-    return initialEvents.map(baseEvent => {
+    const currentTime = getCurrentTime(now);
+    const currentDate = getCurrentDate(now);
+    const schedules = projectSchedule(initialEvents, fetchedUpdates.actualTimes, currentTime, currentDate);
+    const combine = (baseEvent: SportsEventData, eventPlacements?: Placements): SportsEvent => {
       const eventScoresUpdates = fetchedUpdates.scoresByEvent[baseEvent.id];
       const manualStatus = fetchedUpdates.manualStatuses[baseEvent.id];
+      const actualTimes = fetchedUpdates.actualTimes?.[baseEvent.id];
+      const schedule = schedules[baseEvent.id];
+      const heatStatuses = fetchedUpdates.heatStatuses?.[baseEvent.id] || {};
+      const rosterPlayers = applyRosterImport(baseEvent.players, rosterImport?.rosters[baseEvent.id]);
+      const eventSubstitutions = (fetchedUpdates.substitutions || []).filter(substitution => substitution.eventId === baseEvent.id);
+      const substituted = applySubstitutions(rosterPlayers, eventSubstitutions);
+      const appliedSubstitutions = eventSubstitutions.filter(substitution => !substituted.skipped.includes(substitution));
+      const missionDraw = baseEvent.missions ? fetchedUpdates.missionDraws?.[baseEvent.id] : undefined;
+      const missionInputHash = baseEvent.missions ? hashMissionDrawInputs(baseEvent) : undefined;
+
+      // Points from recorded placements take precedence over raw scores for the same class
+      const placementScores = baseEvent.scores && eventPlacements
+        ? scorePlacements(eventPlacements, baseEvent.pointTable)
+        : undefined;
+      const placementPoints: Scores = {};
+      if (placementScores) {
+        Object.keys(placementScores).forEach(className => {
+          placementPoints[className] = placementScores[className].points;
+        });
+      }
 
       const finalScores = baseEvent.scores 
-        ? { ...baseEvent.scores, ...eventScoresUpdates } 
+        ? { ...baseEvent.scores, ...eventScoresUpdates, ...placementPoints } 
         : undefined;
 
-      return {
-        ...baseEvent,
+      const { heats, ...eventData } = baseEvent;
+      const event: SportsEvent = {
+        ...eventData,
+        players: substituted.players,
+        ...(appliedSubstitutions.length > 0 && { substitutions: appliedSubstitutions, originalPlayers: rosterPlayers }),
+        ...(missionInputHash && { missionInputHash }),
+        ...(missionDraw && {
+          missionDraw,
+          missionAssignments: drawMissions(baseEvent, missionDraw.seed),
+          missionDrawOutdated: !!missionDraw.inputHash && missionDraw.inputHash !== missionInputHash,
+        }),
         scores: finalScores,
+        placementScores,
         manualStatus: manualStatus,
-        status: getEventStatus(baseEvent.startTime, baseEvent.endTime, currentTime, manualStatus),
+        actualTimes,
+        schedule,
+        status: getEventStatus(schedule.startTime, schedule.endTime, currentTime, manualStatus, actualTimes, baseEvent.date, currentDate),
       };
+      if (!heats) return event;
+
+      // Without a status or times of its own, a heat marked 활성 starts the event and every heat marked 종료 ends it
+      const heatProgress = getHeatProgress(event, heats, heatStatuses, currentTime, currentDate);
+      let status = event.status;
+      if (!manualStatus && !actualTimes) {
+        if (heatProgress.some(heat => heat.manualStatus === '활성')) status = '진행중';
+        else if (heatProgress.every(heat => heat.manualStatus === '종료')) status = '종료';
+      }
+      return { ...event, heats: heatProgress, status };
+    };
+
+    const combined = initialEvents.map(baseEvent => combine(baseEvent, fetchedUpdates.placementsByEvent?.[baseEvent.id]));
+
+    // A finished bracket scores its event; placements recorded by the host still win per class
+    return combined.map((event, index) => {
+      const results = fetchedUpdates.bracketResults?.[event.id];
+      if (!event.bracket?.autoScore || !event.scores || !results) return event;
+      const ranked = rankClassesForBracket(combined, event, fetchedUpdates.cheeringScores, adjustments, standingsConfig);
+      const bracketData = buildBracketData(event, ranked);
+      const bracketPlacements: Placements = {};
+      Object.keys(bracketData).forEach(grade => {
+        Object.assign(bracketPlacements, getBracketPlacements(bracketData[grade], results, event.bracket));
+      });
+      if (Object.keys(bracketPlacements).length === 0) return event;
+      return combine(initialEvents[index], { ...bracketPlacements, ...fetchedUpdates.placementsByEvent?.[event.id] });
+    });
+  }, [initialEvents, fetchedUpdates, adjustments, standingsConfig, rosterImport, now]);
+
+  // Before or after the sports day the whole program is upcoming or finished; say which day it is
+  const currentDate = getCurrentDate(now);
+  const eventDates = initialEvents.map(event => event.date).filter((date): date is string => !!date).sort();
+  const programDate = eventDates.length > 0 && eventDates.every(date => date !== currentDate)
+    ? eventDates.find(date => date > currentDate) || eventDates[eventDates.length - 1]
+    : null;
+
+  // Any event with a `bracket` can be opened in the bracket viewer
+  const bracketEvent = events.find(event => event.id === bracketEventId && event.bracket);
+  // Overall order before the bracket event, used when a bracket is seeded from the standings
+  const rankedClassesByGrade = useMemo(
+    () => (bracketEvent ? rankClassesForBracket(events, bracketEvent, fetchedUpdates.cheeringScores, adjustments, standingsConfig) : {}),
+    [events, bracketEvent, fetchedUpdates.cheeringScores, adjustments, standingsConfig]
+  );
+  const bracketResults = (bracketEvent && fetchedUpdates.bracketResults?.[bracketEvent.id]) || EMPTY_BRACKET_RESULTS;
+
+  // Brackets seeded from the standings are rebuilt the same way the bracket viewer does
+  const handleCheckRosters = useCallback((rosterEvents: SportsEvent[]) => checkRosters(
+    rosterEvents,
+    event => buildBracketData(event, rankClassesForBracket(events, event, fetchedUpdates.cheeringScores, adjustments, standingsConfig)),
+    fetchedUpdates.bracketResults,
+  ), [events, fetchedUpdates.cheeringScores, fetchedUpdates.bracketResults, adjustments, standingsConfig]);
+
+  // Official results the bracket cannot use are ignored there and listed with the skipped sheet rows
+  const bracketMismatches = useMemo(() => events.flatMap(event => {
+    const results = fetchedUpdates.bracketResults?.[event.id];
+    if (!event.bracket || !results) return [];
+    const bracketData = buildBracketData(event, rankClassesForBracket(events, event, fetchedUpdates.cheeringScores, adjustments, standingsConfig));
+    return findBracketResultMismatches(bracketData, results).map(mismatch => ({ ...mismatch, eventTitle: event.title }));
+  }), [events, fetchedUpdates.cheeringScores, fetchedUpdates.bracketResults, adjustments, standingsConfig]);
+  const sheetIssueCount = (fetchedUpdates.skippedRows?.length || 0) + bracketMismatches.length;
+
+  // The host token is shared by the Host panel and the bracket viewer, so signing in or out in one shows in the other
+  const updateHostToken = useCallback((token: string | null) => {
+    if (token) {
+      sessionStorage.setItem(HOST_TOKEN_STORAGE_KEY, token);
+    } else {
+      sessionStorage.removeItem(HOST_TOKEN_STORAGE_KEY);
+    }
+    setHostToken(token);
+  }, []);
+
+  // Only a host signed in to the relay can publish official match results
+  const handlePublishMatchResult = useCallback(async (matchId: string, games: string[], previous: string[]) => {
+    if (dataSource.kind !== 'relay' || !bracketEvent) return;
+    if (!hostToken) throw new Error('호스트 로그인 후 결과를 입력할 수 있습니다.');
+    try {
+      setFetchedUpdates(await relayService.saveMatchResult(dataSource.url, hostToken, bracketEvent.id, matchId, games, previous, bracketEvent.bracket?.format || 'single'));
+    } catch (e) {
+      if (e instanceof RelayAuthError) updateHostToken(null);
+      throw e;
+    }
+  }, [dataSource, bracketEvent, hostToken, updateHostToken]);
+
+  // Record what changed since the last snapshot, once real data has arrived
+  useEffect(() => {
+    if (!lastUpdatedAt) return;
+    const previous = scoreHistoryRef.current?.sourceKey === historySourceKey ? scoreHistoryRef.current : null;
+    const snapshot = takeScoreSnapshot(events, fetchedUpdates.cheeringScores, adjustments);
+    const changes = previous ? diffScoreSnapshots(previous.snapshot, snapshot, events, new Date().toISOString()) : [];
+    if (previous && changes.length === 0) return;
+
+    const history: SavedScoreHistory = {
+      sourceKey: historySourceKey,
+      snapshot,
+      changes: [...(previous?.changes || []), ...changes].slice(-SCORE_HISTORY_LIMIT),
+    };
+    scoreHistoryRef.current = history;
+    localStorage.setItem(SCORE_HISTORY_STORAGE_KEY, JSON.stringify(history));
+    setScoreChanges(history.changes);
+    if (changes.length > 0) setFreshChanges(changes);
+  }, [events, fetchedUpdates.cheeringScores, adjustments, lastUpdatedAt, historySourceKey]);
+
+  // Delta badges disappear a few seconds after the change
+  useEffect(() => {
+    if (freshChanges.length === 0) return;
+    const timeout = setTimeout(() => setFreshChanges([]), DELTA_BADGE_MS);
+    return () => clearTimeout(timeout);
+  }, [freshChanges]);
+
+  const recentDeltas = useMemo(() => sumScoreDeltas(freshChanges), [freshChanges]);
+
+  const handleRosterImportApply = (saved: SavedRosterImport) => {
+    const merged = rosterImport ? { ...saved, rosters: mergeRosterImports(rosterImport.rosters, saved.rosters) } : saved;
+    localStorage.setItem(ROSTER_IMPORT_STORAGE_KEY, JSON.stringify(merged));
+    setRosterImport(merged);
+    setIsRosterImportOpen(false);
+  };
+
+  const handleRosterImportReset = () => {
+    localStorage.removeItem(ROSTER_IMPORT_STORAGE_KEY);
+    setRosterImport(null);
+  };
+
+  const saveReminders = (next: SavedReminders) => {
+    localStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify(next));
+    setReminders(next);
+  };
+
+  // Turning a reminder on is what asks for notification permission, so the prompt appears on a tap
+  const handleToggleReminder = async (eventId: number) => {
+    const isOn = reminders.eventIds.includes(eventId);
+    if (!isOn && Notification.permission === 'default') {
+      const permission = await Notification.requestPermission();
+      setNotificationPermission(permission);
+      if (permission !== 'granted') return;
+    }
+    saveReminders({
+      eventIds: isOn ? reminders.eventIds.filter(id => id !== eventId) : [...reminders.eventIds, eventId],
+      sent: reminders.sent.filter(key => !key.startsWith(`${eventId}:`)),
     });
-  }, [initialEvents, fetchedUpdates]);
+  };
+
+  // Checked whenever statuses change: on each minute tick and on every data update
+  useEffect(() => {
+    if (notificationPermission !== 'granted' || reminders.eventIds.length === 0) return;
+    const due = getDueReminders(events, reminders, now);
+    if (due.length === 0) return;
+    due.forEach(({ title, body, tag }) => showNotification(title, body, tag));
+    saveReminders({ ...reminders, sent: [...reminders.sent, ...due.map(({ key }) => key)] });
+  }, [events, reminders, now, notificationPermission]);
 
 
+  // Prefer the push channel when the data source offers one; poll while it is unavailable
+  // and retry the push connection periodically.
   useEffect(() => {
     loadEvents({ isInitialLoad: true });
-    
-    const pollInterval = setInterval(() => loadEvents(), 10000);
+
+    let pollInterval: ReturnType<typeof setInterval> | null = null;
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+    let channel: UpdateChannel | null = null;
+
+    const startPolling = () => {
+      setUpdateMode('polling');
+      if (!pollInterval) pollInterval = setInterval(() => loadEvents(), POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollInterval) clearInterval(pollInterval);
+      pollInterval = null;
+    };
+
+    const connectPush = () => {
+      const streamUrl = source.pushStreamUrl;
+      if (!streamUrl) {
+        startPolling();
+        return;
+      }
+      channel = createSseUpdateChannel(streamUrl, {
+        onOpen: () => {
+          stopPolling();
+          setUpdateMode('push');
+        },
+        onSnapshot: updates => {
+          setFetchedUpdates(updates);
+          setLastUpdatedAt(new Date());
+        },
+        onDiff: diff => {
+          setFetchedUpdates(prev => applySheetUpdatesDiff(prev, diff));
+          setLastUpdatedAt(new Date());
+        },
+        onUnavailable: () => {
+          channel = null;
+          startPolling();
+          retryTimeout = setTimeout(connectPush, PUSH_RETRY_MS);
+        },
+      });
+    };
+
+    connectPush();
 
     return () => {
-        clearInterval(pollInterval);
+        stopPolling();
+        if (retryTimeout) clearTimeout(retryTimeout);
+        channel?.close();
     };
-  }, [loadEvents]);
+  }, [loadEvents, source]);
 
   const handleToggle = (id: number) => {
     setExpandedId(prevId => (prevId === id ? null : id));
@@ -1306,19 +6291,95 @@ const SportsDayApp: React.FC<{ sheetUrl: string; onResetUrl: () => void; }> = ({
       <header className="app-header">
         <h1>체육 한마당 실시간 현황</h1>
         <div className="header-buttons">
+          <StudentSearch events={events} />
           <button onClick={() => setIsAnnouncerModalOpen(true)} className="header-action-button">
             🎤 아나운서
           </button>
-          <button onClick={onResetUrl} className="exit-button">URL 재설정</button>
+          <button onClick={() => setIsRosterImportOpen(true)} className="header-action-button">
+            📋 명단
+          </button>
+          {dataSource.kind === 'relay' && (
+            <button onClick={() => setIsHostPanelOpen(true)} className="header-action-button">
+              🔐 Host
+            </button>
+          )}
+          <button onClick={onResetUrl} className="exit-button">데이터 소스 변경</button>
         </div>
       </header>
       <main>
         {error && <div className="error-message-bar">{error}</div>}
-        <div className="warning-message-bar">
-          <p>점수 업데이트가 이상한가요? 서비스 안정화를 위해 약 3분에서 5분 정도 기다리시면 정상적으로 반영될 수 있습니다.</p>
-          <p>URL재설정을 눌렀다가 다시 들어오는 것도 방법입니다.</p>
+        {sheetIssueCount > 0 && (
+          <details className="sheet-issues-bar">
+            <summary>⚠️ 시트에서 반영되지 않은 행이 {sheetIssueCount}개 있습니다. (관리자 확인 필요)</summary>
+            <ul>
+              {(fetchedUpdates.skippedRows || []).map(({ rowNumber, reason, cells }) => (
+                <li key={rowNumber}>
+                  <strong>{rowNumber}행</strong> {reason}
+                  <span className="sheet-issue-cells">{cells.join(' | ')}</span>
+                </li>
+              ))}
+              {bracketMismatches.map(({ eventTitle, matchId, reason }, index) => (
+                <li key={`${eventTitle}-${matchId}-${index}`}>
+                  <strong>{eventTitle} {matchId}</strong> {reason}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+        <div className={`update-status-bar mode-${updateMode}`} role="status">
+          <span className="update-mode">
+            {updateMode === 'push' && '🟢 실시간 연결 중'}
+            {updateMode === 'polling' && `🔄 ${POLL_INTERVAL_MS / 1000}초마다 새로고침`}
+            {updateMode === 'connecting' && '⏳ 실시간 연결 시도 중'}
+            <span className="data-source-label"> · {source.label}</span>
+          </span>
+          <span className="last-updated">
+            마지막 업데이트: {lastUpdatedAt ? lastUpdatedAt.toLocaleTimeString('ko-KR') : '-'}
+            <button
+              className="clock-button"
+              onClick={() => setIsClockSettingsOpen(true)}
+              title="시계 보정"
+            >
+              🕒 {getCurrentTime(now)}{clockOffsetMinutes !== 0 && ' (보정됨)'}
+            </button>
+          </span>
         </div>
-        <TotalScoreboard events={events} cheeringScores={fetchedUpdates.cheeringScores} />
+        {programDate && (
+          <div className="program-date-banner">
+            {programDate > currentDate
+              ? `📅 체육대회는 ${formatEventDate(programDate)}에 열립니다 (D-${daysBetween(currentDate, programDate)})`
+              : `🏁 ${formatEventDate(programDate)}에 열린 체육대회가 모두 끝났습니다`}
+          </div>
+        )}
+        {catalogError && <div className="error-message-bar">{catalogError}</div>}
+        {catalogIssues.length > 0 && (
+          <details className="sheet-issues-bar">
+            <summary>⚠️ 경기 프로그램에서 {catalogIssues.length}개 항목을 기본값으로 대체했습니다. (관리자 확인 필요)</summary>
+            <ul>
+              {catalogIssues.map(({ eventId, field, reason }, index) => (
+                <li key={index}>
+                  <strong>{CATALOG_ISSUE_LABELS[eventId] || `경기 ${eventId}`} · {field}</strong> {reason}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+        {dataSource.kind === 'sheet' && (
+          <div className="warning-message-bar">
+            <p>점수 업데이트가 이상한가요? 서비스 안정화를 위해 약 3분에서 5분 정도 기다리시면 정상적으로 반영될 수 있습니다.</p>
+            <p>데이터 소스 변경을 눌렀다가 다시 들어오는 것도 방법입니다.</p>
+          </div>
+        )}
+        <TotalScoreboard
+          events={events}
+          cheeringScores={fetchedUpdates.cheeringScores}
+          adjustments={adjustments}
+          standingsConfig={standingsConfig}
+          recentDeltas={recentDeltas}
+        />
+        <ChampionshipOutlookPanel events={events} adjustments={adjustments} />
+        <RecentChangesFeed changes={scoreChanges} />
+        <NowNextBanner events={events} clockOffsetMinutes={clockOffsetMinutes} reminderEventIds={reminders.eventIds} />
         <div className="timeline">
           {events.map((event, index) => {
             let colorIndex = index % 7; // Cycle through 0-6
@@ -1331,33 +6392,143 @@ const SportsDayApp: React.FC<{ sheetUrl: string; onResetUrl: () => void; }> = ({
               <EventCard
                 key={event.id}
                 event={event}
+                scoreDeltas={recentDeltas.byEvent[event.id]}
                 isExpanded={expandedId === event.id}
                 onToggle={() => handleToggle(event.id)}
                 colorIndex={colorIndex}
-                onShowBracket={() => setIsBracketModalOpen(true)}
+                onShowBracket={() => setBracketEventId(event.id)}
+                reminder={notificationPermission ? {
+                  isOn: reminders.eventIds.includes(event.id),
+                  isBlocked: notificationPermission === 'denied',
+                  onToggle: () => handleToggleReminder(event.id),
+                } : undefined}
               />
             );
           })}
         </div>
       </main>
        <footer className="info-footer">
-        <p>점수 현황은 10초마다 자동으로 업데이트됩니다.</p>
+        <p>
+          {updateMode === 'push'
+            ? '점수 현황은 입력되는 즉시 자동으로 업데이트됩니다.'
+            : `점수 현황은 ${POLL_INTERVAL_MS / 1000}초마다 자동으로 업데이트됩니다.`}
+        </p>
       </footer>
-      {isBracketModalOpen && <TournamentBracketModal onClose={() => setIsBracketModalOpen(false)} />}
+      {bracketEvent && (
+        <TournamentBracketModal
+          event={bracketEvent}
+          rankedClassesByGrade={rankedClassesByGrade}
+          officialResults={bracketResults}
+          onPublishMatch={dataSource.kind === 'relay' && hostToken ? handlePublishMatchResult : undefined}
+          onClose={() => setBracketEventId(null)}
+        />
+      )}
+      {isClockSettingsOpen && (
+        <ClockSettingsModal
+          offsetMinutes={clockOffsetMinutes}
+          onChange={handleClockOffsetChange}
+          onClose={() => setIsClockSettingsOpen(false)}
+        />
+      )}
       {isAnnouncerModalOpen && <AnnouncerModal onClose={() => setIsAnnouncerModalOpen(false)} />}
+      {isRosterImportOpen && (
+        <RosterImportModal
+          events={events}
+          savedImport={rosterImport}
+          onCheckRosters={handleCheckRosters}
+          onApply={handleRosterImportApply}
+          onReset={handleRosterImportReset}
+          onClose={() => setIsRosterImportOpen(false)}
+        />
+      )}
+      {isHostPanelOpen && dataSource.kind === 'relay' && (
+        <HostPanelModal
+          relayUrl={dataSource.url}
+          events={events}
+          cheeringScores={fetchedUpdates.cheeringScores}
+          adjustments={adjustments}
+          substitutions={fetchedUpdates.substitutions || []}
+          clockOffsetMinutes={clockOffsetMinutes}
+          token={hostToken}
+          onTokenChange={updateHostToken}
+          onCheckRosters={handleCheckRosters}
+          onSaved={setFetchedUpdates}
+          onClose={() => setIsHostPanelOpen(false)}
+        />
+      )}
     </div>
   );
 };
 
-const UrlInputPage: React.FC<{ onUrlSubmit: (url: string) => void; }> = ({ onUrlSubmit }) => {
+const SOURCE_TAB_ORDER: { kind: DataSourceKind; title: string }[] = [
+    { kind: 'sheet', title: 'Google Sheet' },
+    { kind: 'relay', title: '중계 서버' },
+    { kind: 'json', title: 'JSON 파일/URL' },
+    { kind: 'mock', title: '모의 서버' },
+    { kind: 'memory', title: '데모' },
+];
+
+const UrlInputPage: React.FC<{
+    initialCatalogUrl: string | null;
+    onSourceSubmit: (source: DataSourceConfig, catalogUrl: string | null) => void;
+}> = ({ initialCatalogUrl, onSourceSubmit }) => {
+    const [activeKind, setActiveKind] = useState<DataSourceKind>('sheet');
+    const [catalogUrl, setCatalogUrl] = useState(initialCatalogUrl || '');
     const [url, setUrl] = useState('');
+    const [relayUrl, setRelayUrl] = useState('');
+    const [jsonUrl, setJsonUrl] = useState('');
+    const [mockUrl, setMockUrl] = useState('http://localhost:8788');
+    const [fileError, setFileError] = useState<string | null>(null);
     const [isCopied, setIsCopied] = useState(false);
     const sheetCsvUrl = "https://docs.google.com/spreadsheets/d/e/2PACX-1vSdi6u7InsNQ2oEehLWh_x6y-Elrdq7XemPHsXllJodL-6uPu1cRzoYF3fLaXWsk9Qdz_9mBJ2H2F0E/pub?gid=0&single=true&output=csv";
 
+    const submitSource = (source: DataSourceConfig) => {
+        onSourceSubmit(source, catalogUrl.trim() || null);
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (url.trim()) {
-            onUrlSubmit(url.trim());
+            submitSource({ kind: 'sheet', url: url.trim() });
+        }
+    };
+
+    const handleRelaySubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (relayUrl.trim()) {
+            submitSource({ kind: 'relay', url: relayService.normalizeUrl(relayUrl) });
+        }
+    };
+
+    const handleJsonUrlSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (jsonUrl.trim()) {
+            submitSource({ kind: 'json', url: jsonUrl.trim() });
+        }
+    };
+
+    const handleJsonFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text().then(content => {
+            // Validate before leaving the page so a broken file can be fixed right away
+            try {
+                normalizeSheetUpdates(JSON.parse(content));
+            } catch (err) {
+                setFileError(`JSON 파일을 읽을 수 없습니다: ${err instanceof Error ? err.message : String(err)}`);
+                return;
+            }
+            setFileError(null);
+            submitSource({ kind: 'json-file', fileName: file.name, content });
+        }).catch(err => {
+            setFileError(`JSON 파일을 읽을 수 없습니다: ${err instanceof Error ? err.message : String(err)}`);
+        });
+    };
+
+    const handleMockSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (mockUrl.trim()) {
+            submitSource({ kind: 'mock', url: relayService.normalizeUrl(mockUrl) });
         }
     };
     
@@ -1380,61 +6551,192 @@ const UrlInputPage: React.FC<{ onUrlSubmit: (url: string) => void; }> = ({ onUrl
                 <p>실시간으로 체육대회 점수와 일정을 확인하세요!</p>
             </header>
 
-            <div className="url-display-box">
-                <p className="url-display-instruction">
-                    아래 주소를 복사하여 입력창에 붙여넣거나, '복사' 버튼을 누르세요.<br/>
-                    (버튼을 누르면 자동으로 입력됩니다)
-                </p>
-                <div className="url-copy-container">
-                    <input type="text" value={sheetCsvUrl} readOnly aria-label="공유할 Google Sheet URL" />
-                    <button onClick={handleCopyClick} className="copy-button" type="button">
-                        {isCopied ? '복사 완료!' : '복사 & 입력'}
+            <div className="tabs source-tabs" role="tablist" aria-label="데이터 소스 선택">
+                {SOURCE_TAB_ORDER.map(({ kind, title }) => (
+                    <button
+                        key={kind}
+                        className={`tab-button ${activeKind === kind ? 'active' : ''}`}
+                        onClick={() => setActiveKind(kind)}
+                        aria-pressed={activeKind === kind}
+                    >
+                        {title}
                     </button>
-                </div>
+                ))}
             </div>
 
-            <div className="url-input-box">
-                <h2>Google Sheet URL 입력</h2>
-                <p className="instructions">
-                    관리자에게 공유받은 '웹에 게시된' Google Sheet CSV URL을 입력해주세요.
+            {activeKind === 'sheet' && (
+                <>
+                    <div className="url-display-box">
+                        <p className="url-display-instruction">
+                            아래 주소를 복사하여 입력창에 붙여넣거나, '복사' 버튼을 누르세요.<br/>
+                            (버튼을 누르면 자동으로 입력됩니다)
+                        </p>
+                        <div className="url-copy-container">
+                            <input type="text" value={sheetCsvUrl} readOnly aria-label="공유할 Google Sheet URL" />
+                            <button onClick={handleCopyClick} className="copy-button" type="button">
+                                {isCopied ? '복사 완료!' : '복사 & 입력'}
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="url-input-box">
+                        <h2>Google Sheet URL 입력</h2>
+                        <p className="instructions">
+                            관리자에게 공유받은 '웹에 게시된' Google Sheet CSV URL을 입력해주세요.
+                        </p>
+                        <form onSubmit={handleSubmit}>
+                            <input
+                                type="url"
+                                value={url}
+                                onChange={(e) => setUrl(e.target.value)}
+                                placeholder="https://docs.google.com/spreadsheets/d/e/.../pub?output=csv"
+                                aria-label="Google Sheet URL"
+                                required
+                            />
+                            <button type="submit">점수 보러가기</button>
+                        </form>
+                    </div>
+                </>
+            )}
+
+            {activeKind === 'relay' && (
+                <div className="url-input-box">
+                    <h2>로컬 중계 서버 연결 (Host 모드)</h2>
+                    <p className="instructions">
+                        학교에서 실행 중인 중계 서버 주소를 입력하세요. 선생님은 앱에서 바로 점수와 경기 상태를 입력할 수 있습니다.
+                    </p>
+                    <form onSubmit={handleRelaySubmit}>
+                        <input
+                            type="url"
+                            value={relayUrl}
+                            onChange={(e) => setRelayUrl(e.target.value)}
+                            placeholder="http://192.168.0.10:8787"
+                            aria-label="중계 서버 URL"
+                            required
+                        />
+                        <button type="submit">중계 서버 연결</button>
+                    </form>
+                </div>
+            )}
+
+            {activeKind === 'json' && (
+                <div className="url-input-box">
+                    <h2>JSON 데이터 불러오기</h2>
+                    <p className="instructions">
+                        scoresByEvent, manualStatuses, cheeringScores 항목이 있는 JSON 파일을 선택하거나 JSON 주소를 입력하세요.
+                    </p>
+                    <label className="json-file-picker">
+                        <span>📂 JSON 파일 선택</span>
+                        <input type="file" accept="application/json,.json" onChange={handleJsonFileChange} />
+                    </label>
+                    {fileError && <p className="source-error">{fileError}</p>}
+                    <form onSubmit={handleJsonUrlSubmit}>
+                        <input
+                            type="url"
+                            value={jsonUrl}
+                            onChange={(e) => setJsonUrl(e.target.value)}
+                            placeholder="https://example.com/sports-day.json"
+                            aria-label="JSON URL"
+                            required
+                        />
+                        <button type="submit">JSON 주소로 보기</button>
+                    </form>
+                </div>
+            )}
+
+            {activeKind === 'mock' && (
+                <div className="url-input-box">
+                    <h2>모의 서버로 리허설</h2>
+                    <p className="instructions">
+                        <code>npm run mock-server</code>로 실행한 모의 서버에 연결합니다. 실제 시트를 건드리지 않고 점수가 바뀌는 상황을 연습할 수 있습니다.
+                    </p>
+                    <form onSubmit={handleMockSubmit}>
+                        <input
+                            type="url"
+                            value={mockUrl}
+                            onChange={(e) => setMockUrl(e.target.value)}
+                            placeholder="http://localhost:8788"
+                            aria-label="모의 서버 URL"
+                            required
+                        />
+                        <button type="submit">모의 서버 연결</button>
+                    </form>
+                </div>
+            )}
+
+            {activeKind === 'memory' && (
+                <div className="url-input-box">
+                    <h2>데모 데이터로 둘러보기</h2>
+                    <p className="instructions">
+                        서버나 시트 없이 앱에 내장된 예시 점수로 화면을 확인합니다.
+                    </p>
+                    <button className="demo-start-button" type="button" onClick={() => submitSource({ kind: 'memory' })}>
+                        데모 시작
+                    </button>
+                </div>
+            )}
+
+            <div className="catalog-url-box">
+                <label htmlFor="catalog-url">📋 경기 프로그램 주소 (선택)</label>
+                <p>
+                    일정·장소·규칙·점심 메뉴를 담은 두 번째 시트 탭(CSV로 게시) 또는 JSON 주소를 입력하면 앱에 내장된 기본 일정 대신 사용합니다.
+                    비어 있는 항목은 기본값으로 채워집니다.
                 </p>
-                <form onSubmit={handleSubmit}>
-                    <input
-                        type="url"
-                        value={url}
-                        onChange={(e) => setUrl(e.target.value)}
-                        placeholder="https://docs.google.com/spreadsheets/d/e/.../pub?output=csv"
-                        aria-label="Google Sheet URL"
-                        required
-                    />
-                    <button type="submit">점수 보러가기</button>
-                </form>
+                <input
+                    id="catalog-url"
+                    type="url"
+                    value={catalogUrl}
+                    onChange={(e) => setCatalogUrl(e.target.value)}
+                    placeholder="https://docs.google.com/spreadsheets/d/e/.../pub?gid=...&output=csv"
+                />
             </div>
         </div>
     );
 };
 
+const DATA_SOURCE_STORAGE_KEY = 'SPORTS_DAY_DATA_SOURCE';
+const CATALOG_URL_STORAGE_KEY = 'SPORTS_DAY_CATALOG_URL';
+// Key written by the sheet-only version, read once so a saved sheet URL keeps working
 const SHEET_URL_STORAGE_KEY = 'SPORTS_DAY_SHEET_URL';
 
+const loadSavedDataSource = (): DataSourceConfig | null => {
+  const saved = localStorage.getItem(DATA_SOURCE_STORAGE_KEY);
+  if (saved) {
+    try {
+      return JSON.parse(saved) as DataSourceConfig;
+    } catch {
+      localStorage.removeItem(DATA_SOURCE_STORAGE_KEY);
+    }
+  }
+  const sheetUrl = localStorage.getItem(SHEET_URL_STORAGE_KEY);
+  return sheetUrl ? { kind: 'sheet', url: sheetUrl } : null;
+};
+
 const App: React.FC = () => {
-  const [sheetUrl, setSheetUrl] = useState<string | null>(() => {
-    return localStorage.getItem(SHEET_URL_STORAGE_KEY);
-  });
+  const [dataSource, setDataSource] = useState<DataSourceConfig | null>(loadSavedDataSource);
+  const [catalogUrl, setCatalogUrl] = useState<string | null>(() => localStorage.getItem(CATALOG_URL_STORAGE_KEY));
 
-  const handleUrlSubmit = (url: string) => {
-    localStorage.setItem(SHEET_URL_STORAGE_KEY, url);
-    setSheetUrl(url);
+  const handleSourceSubmit = (source: DataSourceConfig, newCatalogUrl: string | null) => {
+    localStorage.setItem(DATA_SOURCE_STORAGE_KEY, JSON.stringify(source));
+    if (newCatalogUrl) {
+      localStorage.setItem(CATALOG_URL_STORAGE_KEY, newCatalogUrl);
+    } else {
+      localStorage.removeItem(CATALOG_URL_STORAGE_KEY);
+    }
+    setCatalogUrl(newCatalogUrl);
+    setDataSource(source);
   };
   
   const handleResetUrl = () => {
+    localStorage.removeItem(DATA_SOURCE_STORAGE_KEY);
     localStorage.removeItem(SHEET_URL_STORAGE_KEY);
-    setSheetUrl(null);
+    setDataSource(null);
   };
 
-  if (sheetUrl) {
-    return <SportsDayApp sheetUrl={sheetUrl} onResetUrl={handleResetUrl} />;
+  if (dataSource) {
+    return <SportsDayApp dataSource={dataSource} catalogUrl={catalogUrl} onResetUrl={handleResetUrl} />;
   } else {
-    return <UrlInputPage onUrlSubmit={handleUrlSubmit} />;
+    return <UrlInputPage initialCatalogUrl={catalogUrl} onSourceSubmit={handleSourceSubmit} />;
   }
 };
 
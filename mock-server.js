@@ -0,0 +1,88 @@
+// Mock data server for rehearsals.
+// Serves a `SheetUpdates` JSON document on GET /updates that changes on its own:
+// scored events run one after another, grade by grade (marking each grade's heat active
+// and then finished), each grade gets random finishing positions
+// (the app turns them into points), cheering scores trickle in and the odd penalty is
+// recorded. Nothing is written to disk.
+//
+// Usage: npm run mock-server
+//   MOCK_PORT      (default 8788)
+//   MOCK_TICK_MS   (default 15000) - how often the simulated sports day advances
+
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_PORT || 8788);
+const TICK_MS = Number(process.env.MOCK_TICK_MS || 15000);
+
+const SCORED_EVENT_IDS = [1, 2, 5];
+const CLASSES_BY_GRADE = {
+  '1': ['1-1', '1-2', '1-3', '1-4', '1-5'],
+  '2': ['2-1', '2-2', '2-3', '2-4'],
+  '3': ['3-1', '3-2', '3-3', '3-4', '3-5'],
+};
+
+const state = { scoresByEvent: {}, placementsByEvent: {}, manualStatuses: {}, cheeringScores: {}, adjustments: [], heatStatuses: {} };
+let step = 0;
+
+const shuffle = (items) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Each event takes one tick per grade while active, then one tick to finish
+const advance = () => {
+  const ticksPerEvent = Object.keys(CLASSES_BY_GRADE).length + 1;
+  const eventIndex = Math.floor(step / ticksPerEvent);
+  if (eventIndex >= SCORED_EVENT_IDS.length) return;
+
+  const eventId = SCORED_EVENT_IDS[eventIndex];
+  const gradeIndex = step % ticksPerEvent;
+  const grade = Object.keys(CLASSES_BY_GRADE)[gradeIndex];
+
+  const heatStatuses = state.heatStatuses[eventId] || (state.heatStatuses[eventId] = {});
+  Object.keys(heatStatuses).forEach(heatId => {
+    heatStatuses[heatId] = '종료';
+  });
+
+  if (grade) {
+    state.manualStatuses[eventId] = '활성';
+    heatStatuses[grade] = '활성';
+    const placements = state.placementsByEvent[eventId] || (state.placementsByEvent[eventId] = {});
+    shuffle(CLASSES_BY_GRADE[grade]).forEach((className, place) => {
+      placements[className] = place + 1;
+    });
+    const cheerer = shuffle(CLASSES_BY_GRADE[grade])[0];
+    state.cheeringScores[cheerer] = (state.cheeringScores[cheerer] || 0) + 5;
+  } else {
+    state.manualStatuses[eventId] = '종료';
+    const penalized = shuffle(Object.values(CLASSES_BY_GRADE).flat())[0];
+    state.adjustments.push({ className: penalized, amount: -10, reason: '부정 출발', eventId, at: new Date().toISOString() });
+  }
+
+  step++;
+  console.log(`[MOCK] Step ${step}: event ${eventId} ${grade ? `grade ${grade} scored` : 'finished'}`);
+};
+
+setInterval(advance, TICK_MS);
+
+http.createServer((req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const headers = {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+    'Access-Control-Allow-Origin': '*',
+  };
+  if (req.method === 'GET' && pathname === '/updates') {
+    res.writeHead(200, headers);
+    res.end(JSON.stringify(state));
+    return;
+  }
+  res.writeHead(404, headers);
+  res.end(JSON.stringify({ error: 'Not found' }));
+}).listen(PORT, () => {
+  console.log(`[MOCK] Serving simulated updates on http://localhost:${PORT}/updates (every ${TICK_MS}ms)`);
+});
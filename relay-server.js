@@ -0,0 +1,398 @@
+// Local relay server for Host mode.
+// Hosts write scores, manual statuses (per event and per heat), actual times, cheering scores, adjustments, substitutions, mission draws and bracket results here; clients read them
+// back in the same `SheetUpdates` shape the Google Sheet CSV produces, either by
+// polling GET /updates or by subscribing to the GET /stream Server-Sent Events feed.
+//
+// Usage: RELAY_HOST_PASSWORD=secret npm run relay
+//   RELAY_PORT       (default 8787)
+//   RELAY_DATA_FILE  (default ./relay-data.json) - state survives restarts
+
+import http from 'node:http';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.RELAY_PORT || 8787);
+const HOST_PASSWORD = process.env.RELAY_HOST_PASSWORD || '';
+const DATA_FILE = process.env.RELAY_DATA_FILE || 'relay-data.json';
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+const MANUAL_STATUSES = ['활성', '종료', '예정'];
+
+if (!HOST_PASSWORD) {
+  console.error('[RELAY] RELAY_HOST_PASSWORD must be set so only teachers can write scores.');
+  process.exit(1);
+}
+
+// --- State ---
+const loadState = () => {
+  const empty = { scoresByEvent: {}, placementsByEvent: {}, manualStatuses: {}, cheeringScores: {}, adjustments: [], bracketResults: {}, actualTimes: {}, heatStatuses: {}, substitutions: [], missionDraws: {} };
+  if (!existsSync(DATA_FILE)) return empty;
+  try {
+    return { ...empty, ...JSON.parse(readFileSync(DATA_FILE, 'utf8')) };
+  } catch (error) {
+    console.error(`[RELAY] Could not read ${DATA_FILE}, starting empty:`, error);
+    return empty;
+  }
+};
+
+const state = loadState();
+
+const saveState = () => {
+  writeFileSync(DATA_FILE, JSON.stringify(state, null, 2));
+};
+
+// --- Live stream (Server-Sent Events) ---
+// Each subscriber gets a `snapshot` event with the full state on connect, then a
+// `diff` event per write containing only the parts that changed.
+const streamClients = new Set();
+
+const writeEvent = (res, event, data) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const broadcastDiff = (diff) => {
+  streamClients.forEach(res => writeEvent(res, 'diff', diff));
+};
+
+const openStream = (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-store',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+  writeEvent(res, 'snapshot', state);
+  streamClients.add(res);
+  req.on('close', () => streamClients.delete(res));
+};
+
+setInterval(() => {
+  streamClients.forEach(res => res.write(': heartbeat\n\n'));
+}, STREAM_HEARTBEAT_MS).unref();
+
+// --- Auth ---
+const tokens = new Map(); // token -> expiry timestamp
+
+const passwordMatches = (password) => {
+  const given = Buffer.from(String(password ?? ''));
+  const expected = Buffer.from(HOST_PASSWORD);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const isAuthorized = (req) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  if (!match) return false;
+  const expiry = tokens.get(match[1]);
+  if (!expiry) return false;
+  if (expiry < Date.now()) {
+    tokens.delete(match[1]);
+    return false;
+  }
+  return true;
+};
+
+// --- Validation ---
+const isInteger = (value) => typeof value === 'number' && Number.isInteger(value);
+
+const validateScores = (scores) => {
+  if (!scores || typeof scores !== 'object' || Array.isArray(scores)) return false;
+  return Object.entries(scores).every(([className, score]) => className.trim() !== '' && isInteger(score));
+};
+
+// A placement is a finishing position (1 = first) or 'DQ' for a disqualified class
+const validatePlacements = (placements) => {
+  if (!placements || typeof placements !== 'object' || Array.isArray(placements)) return false;
+  return Object.entries(placements).every(([className, placement]) =>
+    className.trim() !== '' && (placement === 'DQ' || (isInteger(placement) && placement >= 1)));
+};
+
+// An adjustment is a signed correction for one class with a reason, optionally linked to an event
+const validateAdjustment = (adjustment) =>
+  adjustment && typeof adjustment === 'object'
+  && typeof adjustment.className === 'string' && adjustment.className.trim() !== ''
+  && isInteger(adjustment.amount)
+  && typeof adjustment.reason === 'string' && adjustment.reason.trim() !== ''
+  && (adjustment.eventId === undefined || isInteger(adjustment.eventId))
+  && (adjustment.at === undefined || typeof adjustment.at === 'string');
+
+// Ids of list entries (adjustments, substitutions) are assigned here, so hosts adding at once never collide
+const createEntryId = () => randomBytes(6).toString('hex');
+
+// A substitution swaps one named player for another in a runner slot ("1", "2", …) or a
+// tug-of-war group of one class's roster for an event, with a reason
+const SUBSTITUTION_GROUPS = ['women', 'men_vanguard', 'men_rearguard'];
+const isName = (value) => typeof value === 'string' && value.trim() !== '';
+
+const validateSubstitution = (substitution) =>
+  substitution && typeof substitution === 'object'
+  && isInteger(substitution.eventId)
+  && isName(substitution.className)
+  && (SUBSTITUTION_GROUPS.includes(substitution.slot) || (typeof substitution.slot === 'string' && /^[1-9]\d*$/.test(substitution.slot)))
+  && isName(substitution.playerOut) && isName(substitution.playerIn) && isName(substitution.reason)
+  && (substitution.at === undefined || typeof substitution.at === 'string');
+
+// A mission draw is its seed (up to 9 digits); every client re-draws the missions from it. The
+// optional input hash lets clients notice that the missions or classes changed after the draw.
+const validateMissionDraw = (draw) =>
+  draw && typeof draw === 'object'
+  && isInteger(draw.seed) && draw.seed >= 0 && draw.seed < 1_000_000_000
+  && (draw.at === undefined || typeof draw.at === 'string')
+  && (draw.inputHash === undefined || (typeof draw.inputHash === 'string' && /^[0-9a-f]{8}$/.test(draw.inputHash)));
+
+// Bracket results map a match id such as "g1-r2-m1" (or "g1-w1-m1"/"g1-l1-m1"/"g1-f1-m1" in double
+// elimination) to the classes that won its games, in order; "DRAW" records a drawn game, which
+// only a round robin has. The relay has no event catalog, so the host sends the bracket format.
+const BRACKET_FORMATS = ['single', 'double', 'roundRobin'];
+const BRACKET_DRAW = 'DRAW';
+
+const isMatchId = (value) => /^g\d+-[rwlf]\d+-m\d+$/.test(value);
+
+const validateMatchGames = (games, format) =>
+  Array.isArray(games)
+  && games.every(winner => typeof winner === 'string' && winner.trim() !== ''
+    && (winner !== BRACKET_DRAW || format === 'roundRobin'));
+
+const sameGames = (a, b) => a.length === b.length && a.every((winner, index) => winner === b[index]);
+
+// Actual times are "HH:MM" (24-hour) or null to clear them
+const isClockTime = (value) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+// --- HTTP helpers ---
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const MAX_BODY_LENGTH = 1_000_000;
+
+// Errors carrying an HTTP status; anything else is answered with 400
+const httpError = (status, message) => Object.assign(new Error(message), { status });
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let raw = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => {
+    raw += chunk;
+    if (raw.length > MAX_BODY_LENGTH) {
+      // Stop reading: the rest of an oversized upload is never buffered
+      raw = '';
+      req.removeAllListeners('data');
+      req.removeAllListeners('end');
+      req.pause();
+      reject(httpError(413, 'Request body too large'));
+    }
+  });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : {});
+    } catch {
+      reject(new Error('Invalid JSON body'));
+    }
+  });
+  req.on('error', reject);
+});
+
+// --- Routes ---
+const handleRequest = async (req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (req.method === 'GET' && pathname === '/updates') {
+    return send(res, 200, state);
+  }
+
+  if (req.method === 'GET' && pathname === '/stream') {
+    return openStream(req, res);
+  }
+
+  if (req.method === 'POST' && pathname === '/auth') {
+    const { password } = await readJson(req);
+    if (!passwordMatches(password)) return send(res, 401, { error: '비밀번호가 올바르지 않습니다.' });
+    const token = randomBytes(24).toString('hex');
+    tokens.set(token, Date.now() + TOKEN_TTL_MS);
+    return send(res, 200, { token });
+  }
+
+  if (!['PUT', 'POST', 'DELETE'].includes(req.method)) return send(res, 404, { error: 'Not found' });
+  if (!isAuthorized(req)) return send(res, 401, { error: '호스트 인증이 필요합니다.' });
+
+  const body = await readJson(req);
+
+  // Adjustments are added and removed one at a time, so hosts working side by side keep each other's
+  if (req.method === 'POST' && pathname === '/adjustments') {
+    if (!validateAdjustment(body.adjustment)) return send(res, 400, { error: '가감점에는 반 이름, 정수 점수, 사유가 필요합니다.' });
+    const adjustment = { ...body.adjustment, id: createEntryId() };
+    state.adjustments.push(adjustment);
+    saveState();
+    broadcastDiff({ adjustmentsById: { [adjustment.id]: adjustment } });
+    return send(res, 200, state);
+  }
+
+  const adjustmentMatch = /^\/adjustments\/([^/]+)$/.exec(pathname);
+  if (req.method === 'DELETE' && adjustmentMatch) {
+    const id = decodeURIComponent(adjustmentMatch[1]);
+    if (!state.adjustments.some(adjustment => adjustment.id === id)) return send(res, 404, { error: '이미 삭제된 가감점입니다.' });
+    state.adjustments = state.adjustments.filter(adjustment => adjustment.id !== id);
+    saveState();
+    broadcastDiff({ adjustmentsById: { [id]: null } });
+    return send(res, 200, state);
+  }
+
+  // Substitutions work the same way
+  if (req.method === 'POST' && pathname === '/substitutions') {
+    if (!validateSubstitution(body.substitution)) return send(res, 400, { error: '교체에는 경기 번호, 반, 구분, 나간 선수, 들어온 선수, 사유가 필요합니다.' });
+    const substitution = { ...body.substitution, id: createEntryId() };
+    state.substitutions.push(substitution);
+    saveState();
+    broadcastDiff({ substitutionsById: { [substitution.id]: substitution } });
+    return send(res, 200, state);
+  }
+
+  const substitutionMatch = /^\/substitutions\/([^/]+)$/.exec(pathname);
+  if (req.method === 'DELETE' && substitutionMatch) {
+    const id = decodeURIComponent(substitutionMatch[1]);
+    if (!state.substitutions.some(substitution => substitution.id === id)) return send(res, 404, { error: '이미 삭제된 교체 기록입니다.' });
+    state.substitutions = state.substitutions.filter(substitution => substitution.id !== id);
+    saveState();
+    broadcastDiff({ substitutionsById: { [id]: null } });
+    return send(res, 200, state);
+  }
+
+  if (req.method !== 'PUT') return send(res, 404, { error: 'Not found' });
+
+  const scoresMatch = /^\/events\/(\d+)\/scores$/.exec(pathname);
+  if (scoresMatch) {
+    if (!validateScores(body.scores)) return send(res, 400, { error: '점수는 반 이름과 정수로 입력해야 합니다.' });
+    state.scoresByEvent[scoresMatch[1]] = body.scores;
+    saveState();
+    broadcastDiff({ scoresByEvent: { [scoresMatch[1]]: body.scores } });
+    return send(res, 200, state);
+  }
+
+  const placementsMatch = /^\/events\/(\d+)\/placements$/.exec(pathname);
+  if (placementsMatch) {
+    if (!validatePlacements(body.placements)) return send(res, 400, { error: '순위는 1 이상의 정수 또는 DQ(실격)여야 합니다.' });
+    state.placementsByEvent[placementsMatch[1]] = body.placements;
+    saveState();
+    broadcastDiff({ placementsByEvent: { [placementsMatch[1]]: body.placements } });
+    return send(res, 200, state);
+  }
+
+  // Match results are written one match at a time. The host sends the games it saw before its
+  // change, so a match another host changed in the meantime is rejected instead of overwritten.
+  const bracketMatch = /^\/events\/(\d+)\/bracket\/([^/]+)$/.exec(pathname);
+  if (bracketMatch) {
+    const [, eventId, encodedMatchId] = bracketMatch;
+    const matchId = decodeURIComponent(encodedMatchId);
+    const format = body.format ?? 'single';
+    if (!BRACKET_FORMATS.includes(format)) return send(res, 400, { error: `대진 방식은 ${BRACKET_FORMATS.join('/')} 중 하나여야 합니다.` });
+    if (!isMatchId(matchId) || !validateMatchGames(body.games, format) || !validateMatchGames(body.previous, format)) {
+      return send(res, 400, { error: '대진 결과는 대진 번호와 승리 반 이름으로 입력해야 합니다. 무승부(DRAW)는 리그전에서만 기록할 수 있습니다.' });
+    }
+    const eventResults = { ...state.bracketResults[eventId] };
+    if (!sameGames(eventResults[matchId] || [], body.previous)) {
+      return send(res, 409, { error: '다른 호스트가 먼저 이 경기 결과를 바꿨습니다. 최신 결과를 확인한 뒤 다시 입력해주세요.' });
+    }
+    if (body.games.length > 0) {
+      eventResults[matchId] = body.games;
+    } else {
+      delete eventResults[matchId];
+    }
+    state.bracketResults[eventId] = eventResults;
+    saveState();
+    broadcastDiff({ bracketResultsByMatch: { [eventId]: { [matchId]: body.games.length > 0 ? body.games : null } } });
+    return send(res, 200, state);
+  }
+
+  const timesMatch = /^\/events\/(\d+)\/times$/.exec(pathname);
+  if (timesMatch) {
+    const { start = null, end = null } = body;
+    if ((start !== null && !isClockTime(start)) || (end !== null && !isClockTime(end))) {
+      return send(res, 400, { error: '실제 시각은 HH:MM 형식이어야 합니다.' });
+    }
+    const times = { ...(start && { start }), ...(end && { end }) };
+    if (start || end) {
+      state.actualTimes[timesMatch[1]] = times;
+    } else {
+      delete state.actualTimes[timesMatch[1]];
+    }
+    saveState();
+    broadcastDiff({ actualTimes: { [timesMatch[1]]: start || end ? times : null } });
+    return send(res, 200, state);
+  }
+
+  const missionDrawMatch = /^\/events\/(\d+)\/mission-draw$/.exec(pathname);
+  if (missionDrawMatch) {
+    if (body.draw === null) {
+      delete state.missionDraws[missionDrawMatch[1]];
+    } else if (validateMissionDraw(body.draw)) {
+      state.missionDraws[missionDrawMatch[1]] = body.draw;
+    } else {
+      return send(res, 400, { error: '추첨 번호는 9자리 이하의 0 이상 정수여야 합니다.' });
+    }
+    saveState();
+    broadcastDiff({ missionDraws: { [missionDrawMatch[1]]: body.draw } });
+    return send(res, 200, state);
+  }
+
+  // Heat ids are URL-encoded since they may be any text, e.g. "1" or "A조"
+  const heatStatusMatch = /^\/events\/(\d+)\/heats\/([^/]+)\/status$/.exec(pathname);
+  if (heatStatusMatch) {
+    const [, eventId, encodedHeatId] = heatStatusMatch;
+    const heatId = decodeURIComponent(encodedHeatId);
+    const heatStatuses = { ...state.heatStatuses[eventId] };
+    if (body.status === null) {
+      delete heatStatuses[heatId];
+    } else if (MANUAL_STATUSES.includes(body.status)) {
+      heatStatuses[heatId] = body.status;
+    } else {
+      return send(res, 400, { error: `상태는 ${MANUAL_STATUSES.join('/')} 중 하나여야 합니다.` });
+    }
+    state.heatStatuses[eventId] = heatStatuses;
+    saveState();
+    broadcastDiff({ heatStatuses: { [eventId]: heatStatuses } });
+    return send(res, 200, state);
+  }
+
+  const statusMatch = /^\/events\/(\d+)\/status$/.exec(pathname);
+  if (statusMatch) {
+    if (body.status === null) {
+      delete state.manualStatuses[statusMatch[1]];
+    } else if (MANUAL_STATUSES.includes(body.status)) {
+      state.manualStatuses[statusMatch[1]] = body.status;
+    } else {
+      return send(res, 400, { error: `상태는 ${MANUAL_STATUSES.join('/')} 중 하나여야 합니다.` });
+    }
+    saveState();
+    broadcastDiff({ manualStatuses: { [statusMatch[1]]: body.status } });
+    return send(res, 200, state);
+  }
+
+  if (pathname === '/cheering') {
+    if (!validateScores(body.scores)) return send(res, 400, { error: '점수는 반 이름과 정수로 입력해야 합니다.' });
+    state.cheeringScores = body.scores;
+    saveState();
+    broadcastDiff({ cheeringScores: body.scores });
+    return send(res, 200, state);
+  }
+
+  return send(res, 404, { error: 'Not found' });
+};
+
+http.createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    console.error('[RELAY] Request failed:', error);
+    // The unread rest of a rejected upload is dropped with the connection
+    if (error.status === 413) res.setHeader('Connection', 'close');
+    send(res, error.status || 400, { error: error.message || 'Bad request' });
+  });
+}).listen(PORT, () => {
+  console.log(`[RELAY] Listening on http://0.0.0.0:${PORT} (data file: ${DATA_FILE})`);
+});